@@ -0,0 +1,389 @@
+// Local address checks run before anything reaches the API: country,
+// province/state and postal code formats for Canada and the US, plus phone
+// and email sanity checks. Everything is normalized first, so "california",
+// "Ca " and "CA" all validate as the same state.
+
+export interface AddressFields {
+  name?: string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  province_code?: string;
+  postal_code?: string;
+  country_code: string;
+  phone?: string;
+  email?: string;
+}
+
+export type AddressField = keyof AddressFields;
+
+export interface AddressIssue {
+  field: AddressField;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface AddressChange {
+  field: AddressField;
+  from: string;
+  to: string;
+}
+
+export interface AddressCheck {
+  valid: boolean;
+  address: AddressFields;
+  changes: AddressChange[];
+  issues: AddressIssue[];
+}
+
+// ISO 3166-1 alpha-2, plus XK (Kosovo), which carriers accept
+const COUNTRY_CODES = new Set(
+  `AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS
+  BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE
+  EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM
+  HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC
+  LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA
+  NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW
+  SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO
+  TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS XK YE YT ZA ZM ZW`.split(/\s+/)
+);
+
+// Country names and alpha-3 codes people type instead of the alpha-2 code,
+// keyed by nameKey()
+const COUNTRY_ALIASES: Record<string, string> = {
+  canada: "CA",
+  can: "CA",
+  unitedstates: "US",
+  unitedstatesofamerica: "US",
+  usa: "US",
+  america: "US",
+  unitedkingdom: "GB",
+  uk: "GB",
+  gbr: "GB",
+  greatbritain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  northernireland: "GB",
+  australia: "AU",
+  aus: "AU",
+  newzealand: "NZ",
+  ireland: "IE",
+  germany: "DE",
+  deu: "DE",
+  deutschland: "DE",
+  france: "FR",
+  fra: "FR",
+  mexico: "MX",
+  mex: "MX",
+  japan: "JP",
+  china: "CN",
+  hongkong: "HK",
+  taiwan: "TW",
+  southkorea: "KR",
+  korea: "KR",
+  india: "IN",
+  singapore: "SG",
+  philippines: "PH",
+  netherlands: "NL",
+  holland: "NL",
+  belgium: "BE",
+  switzerland: "CH",
+  austria: "AT",
+  italy: "IT",
+  spain: "ES",
+  portugal: "PT",
+  sweden: "SE",
+  norway: "NO",
+  denmark: "DK",
+  finland: "FI",
+  poland: "PL",
+  israel: "IL",
+  brazil: "BR",
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  AB: "Alberta",
+  BC: "British Columbia",
+  MB: "Manitoba",
+  NB: "New Brunswick",
+  NL: "Newfoundland and Labrador",
+  NS: "Nova Scotia",
+  NT: "Northwest Territories",
+  NU: "Nunavut",
+  ON: "Ontario",
+  PE: "Prince Edward Island",
+  QC: "Quebec",
+  SK: "Saskatchewan",
+  YT: "Yukon",
+};
+
+const US_STATES: Record<string, string> = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+  // Territories and military post offices
+  AS: "American Samoa",
+  GU: "Guam",
+  MP: "Northern Mariana Islands",
+  PR: "Puerto Rico",
+  VI: "US Virgin Islands",
+  AA: "Armed Forces Americas",
+  AE: "Armed Forces Europe",
+  AP: "Armed Forces Pacific",
+};
+
+// Old or informal codes still seen in order exports
+const REGION_ALIASES: Record<string, Record<string, string>> = {
+  CA: {
+    pq: "QC",
+    que: "QC",
+    nf: "NL",
+    nfld: "NL",
+    newfoundland: "NL",
+    lb: "NL",
+    yk: "YT",
+    yukonterritory: "YT",
+    pei: "PE",
+  },
+  US: { washingtondc: "DC", usvirginislands: "VI", virginislands: "VI" },
+};
+
+const REGIONS: Record<string, Record<string, string>> = { CA: CA_PROVINCES, US: US_STATES };
+
+// First letter of a Canadian postal code -> the province(s) it serves
+const CA_POSTAL_PROVINCES: Record<string, string[]> = {
+  A: ["NL"],
+  B: ["NS"],
+  C: ["PE"],
+  E: ["NB"],
+  G: ["QC"],
+  H: ["QC"],
+  J: ["QC"],
+  K: ["ON"],
+  L: ["ON"],
+  M: ["ON"],
+  N: ["ON"],
+  P: ["ON"],
+  R: ["MB"],
+  S: ["SK"],
+  T: ["AB"],
+  V: ["BC"],
+  X: ["NT", "NU"],
+  Y: ["YT"],
+};
+
+const CA_POSTAL = /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])(\d[ABCEGHJ-NPRSTV-Z]\d)$/;
+const US_ZIP = /^(\d{5})(\d{4})?$/;
+const EMAIL = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+// Lowercase letters only, accents stripped: "Québec" -> "quebec"
+function nameKey(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+}
+
+function collapse(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function normalizeCountry(value: string): string {
+  const code = value.trim().toUpperCase();
+  if (COUNTRY_CODES.has(code)) return code;
+  return COUNTRY_ALIASES[nameKey(value)] || code;
+}
+
+function normalizeRegion(value: string, country: string): string {
+  const code = value.trim().toUpperCase();
+  const regions = REGIONS[country];
+  if (!regions || regions[code]) return code;
+
+  const key = nameKey(value);
+  const byName = Object.entries(regions).find(([, name]) => nameKey(name) === key);
+  return byName?.[0] || REGION_ALIASES[country]?.[key] || code;
+}
+
+function normalizePostal(value: string, country: string): string {
+  const compact = value.toUpperCase().replace(/[\s-]/g, "");
+  if (country === "CA") {
+    const match = CA_POSTAL.exec(compact);
+    return match ? `${match[1]} ${match[2]}` : value.trim().toUpperCase();
+  }
+  if (country === "US") {
+    const match = US_ZIP.exec(compact);
+    return match ? (match[2] ? `${match[1]}-${match[2]}` : match[1]) : value.trim();
+  }
+  return collapse(value).toUpperCase();
+}
+
+/**
+ * Normalize an address and report what's wrong with it. Errors are problems
+ * that would produce a bad label (unknown country, malformed postal code);
+ * warnings are worth a second look but don't block anything.
+ */
+export function checkAddress(input: AddressFields): AddressCheck {
+  const address: AddressFields = { ...input };
+  const issues: AddressIssue[] = [];
+  const error = (field: AddressField, message: string) =>
+    issues.push({ field, severity: "error", message });
+  const warning = (field: AddressField, message: string) =>
+    issues.push({ field, severity: "warning", message });
+
+  for (const field of ["name", "address_1", "address_2", "city"] as const) {
+    if (address[field] !== undefined) address[field] = collapse(address[field]!);
+  }
+  if (address.phone !== undefined) address.phone = address.phone.trim();
+  if (address.email !== undefined) address.email = address.email.trim();
+
+  const country = normalizeCountry(input.country_code);
+  address.country_code = country;
+  if (!COUNTRY_CODES.has(country)) {
+    error(
+      "country_code",
+      `"${input.country_code}" is not an ISO 3166 country code (e.g., CA, US, GB)`
+    );
+  }
+
+  const regions = REGIONS[country];
+  const regionKind = country === "CA" ? "Canadian province or territory" : "US state or territory";
+  if (input.province_code !== undefined) {
+    address.province_code = normalizeRegion(input.province_code, country);
+    if (regions && !regions[address.province_code]) {
+      error("province_code", `"${input.province_code}" is not a ${regionKind} code`);
+    }
+  } else if (regions) {
+    error("province_code", `A ${regionKind} code is required for ${country} addresses`);
+  }
+
+  if (input.postal_code !== undefined) {
+    address.postal_code = normalizePostal(input.postal_code, country);
+    if (country === "CA") {
+      if (!CA_POSTAL.test(address.postal_code.replace(" ", ""))) {
+        error("postal_code", `"${input.postal_code}" is not a Canadian postal code (format A1A 1A1)`);
+      } else {
+        const provinces = CA_POSTAL_PROVINCES[address.postal_code[0]];
+        const province = address.province_code;
+        if (province && regions?.[province] && !provinces.includes(province)) {
+          warning(
+            "postal_code",
+            `Postal code ${address.postal_code} is in ${provinces.join("/")}, not ${province}`
+          );
+        }
+      }
+    } else if (country === "US" && !/^\d{5}(-\d{4})?$/.test(address.postal_code)) {
+      error("postal_code", `"${input.postal_code}" is not a US ZIP code (12345 or 12345-6789)`);
+    }
+  } else if (regions) {
+    error("postal_code", `A postal code is required for ${country} addresses`);
+  }
+
+  if (address.phone) {
+    const digits = address.phone.replace(/\D/g, "");
+    if (/[^\d\s()+.\-x]/i.test(address.phone)) {
+      warning("phone", `"${address.phone}" contains characters that don't belong in a phone number`);
+    } else if (
+      (country === "CA" || country === "US") &&
+      !(digits.length === 10 || (digits.length === 11 && digits[0] === "1"))
+    ) {
+      warning("phone", `"${address.phone}" doesn't look like a 10-digit North American number`);
+    } else if (digits.length < 7 || digits.length > 15) {
+      warning(
+        "phone",
+        `"${address.phone}" has ${digits.length} digits; international numbers have 7 to 15`
+      );
+    }
+  }
+
+  if (address.email && !EMAIL.test(address.email)) {
+    error("email", `"${address.email}" is not a valid email address`);
+  }
+
+  const changes: AddressChange[] = [];
+  for (const field of Object.keys(input) as AddressField[]) {
+    const from = input[field];
+    const to = address[field];
+    if (from !== undefined && to !== undefined && from !== to) changes.push({ field, from, to });
+  }
+
+  return {
+    valid: !issues.some((i) => i.severity === "error"),
+    address,
+    changes,
+    issues,
+  };
+}
+
+const ADDRESS_FIELDS: AddressField[] = [
+  "name",
+  "address_1",
+  "address_2",
+  "city",
+  "province_code",
+  "postal_code",
+  "country_code",
+  "phone",
+  "email",
+];
+
+// Pull one address out of shipment params: the recipient's, or with
+// prefix "return_" the return address
+export function addressFrom(params: object, prefix = ""): AddressFields {
+  const source = params as Record<string, unknown>;
+  const address: Record<string, string> = {};
+  for (const field of ADDRESS_FIELDS) {
+    const value = source[`${prefix}${field}`];
+    if (typeof value === "string") address[field] = value;
+  }
+  return address as unknown as AddressFields;
+}
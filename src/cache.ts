@@ -0,0 +1,155 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { client, currentAccount } from "./client.js";
+
+export type CacheCollection = "shipments" | "batches" | "returns";
+
+export const CACHE_COLLECTIONS: CacheCollection[] = ["shipments", "batches", "returns"];
+
+export interface CollectionState {
+  // ISO timestamp of the last successful sync
+  synced_at?: string;
+  // False when the last sync stopped early (error or page ceiling)
+  complete: boolean;
+  records: Record<string, Record<string, unknown>>;
+}
+
+export interface SyncOutcome {
+  collection: CacheCollection;
+  mode: "full" | "incremental";
+  // Shipments only: the from_date sent to the API in incremental mode
+  from_date?: string;
+  fetched: number;
+  added: number;
+  updated: number;
+  total: number;
+  pages: number;
+  synced_at?: string;
+  warning?: string;
+  error?: string;
+}
+
+const CACHE_DIR = resolve(process.env.CHITCHATS_CACHE_DIR || ".chitchats-cache");
+// Shipments keep changing after creation (in transit, delivered, refunded),
+// so incremental syncs re-fetch this many days before the last sync.
+const RESYNC_DAYS = Number(process.env.CHITCHATS_CACHE_RESYNC_DAYS) || 30;
+export const CACHE_MAX_AGE_MINUTES = Number(process.env.CHITCHATS_CACHE_MAX_AGE_MINUTES) || 60;
+
+// One sync per account and collection at a time
+const inFlight = new Map<string, Promise<SyncOutcome>>();
+
+function cacheFile(collection: CacheCollection): string {
+  const account = currentAccount().name.replace(/[^A-Za-z0-9_-]/g, "_");
+  return join(CACHE_DIR, account, `${collection}.json`);
+}
+
+export async function loadCollection(collection: CacheCollection): Promise<CollectionState> {
+  try {
+    return JSON.parse(await readFile(cacheFile(collection), "utf8")) as CollectionState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { complete: false, records: {} };
+    }
+    throw error;
+  }
+}
+
+// Write through a temp file so a crash never leaves a half-written cache
+async function saveCollection(collection: CacheCollection, state: CollectionState): Promise<void> {
+  const file = cacheFile(collection);
+  await mkdir(join(file, ".."), { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(state));
+  await rename(`${file}.tmp`, file);
+}
+
+export function cacheAgeMinutes(state: CollectionState): number | undefined {
+  if (!state.synced_at) return undefined;
+  return Math.floor((Date.now() - Date.parse(state.synced_at)) / 60000);
+}
+
+function daysBefore(iso: string, days: number): string {
+  const date = new Date(iso);
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+async function runSync(collection: CacheCollection, full: boolean): Promise<SyncOutcome> {
+  const state = await loadCollection(collection);
+  // Batches and returns have no date filter, so they're always fetched whole
+  const incremental =
+    !full && collection === "shipments" && state.complete && state.synced_at !== undefined;
+
+  const query = new URLSearchParams();
+  let fromDate: string | undefined;
+  if (incremental) {
+    fromDate = daysBefore(state.synced_at!, RESYNC_DAYS);
+    query.set("from_date", fromDate);
+  }
+
+  const startedAt = new Date().toISOString();
+  const result = await client.getAllPages<Record<string, unknown>>(`/${collection}`, query);
+
+  const outcome: SyncOutcome = {
+    collection,
+    mode: incremental ? "incremental" : "full",
+    ...(fromDate && { from_date: fromDate }),
+    fetched: result.data.length,
+    added: 0,
+    updated: 0,
+    total: 0,
+    pages: result.pages,
+  };
+
+  if (result.stoppedBy === "error" && result.data.length === 0) {
+    return { ...outcome, total: Object.keys(state.records).length, error: result.error };
+  }
+
+  // A full sync replaces the collection so deleted records drop out, unless
+  // it stopped early and would lose records it never reached
+  const stoppedEarly = result.stoppedBy !== undefined;
+  const records = !incremental && !stoppedEarly ? {} : { ...state.records };
+
+  for (const record of result.data) {
+    const id = String(record.id);
+    if (!(id in state.records)) {
+      outcome.added++;
+    } else if (JSON.stringify(state.records[id]) !== JSON.stringify(record)) {
+      outcome.updated++;
+    }
+    records[id] = record;
+  }
+
+  if (result.stoppedBy === "error") {
+    outcome.warning = `Stopped after ${result.pages} page(s) because of an error: ${result.error}. The cache was updated with what was fetched.`;
+  } else if (result.stoppedBy === "page_ceiling") {
+    outcome.warning = `Stopped at the page ceiling (${result.pages} pages, set via CHITCHATS_MAX_PAGES); older records are missing.`;
+  }
+
+  const next: CollectionState = {
+    // Keep the previous sync time after a failed run so staleness stays honest
+    synced_at: result.stoppedBy === "error" ? state.synced_at : startedAt,
+    complete: incremental ? state.complete && !stoppedEarly : !stoppedEarly,
+    records,
+  };
+  await saveCollection(collection, next);
+
+  return {
+    ...outcome,
+    total: Object.keys(records).length,
+    ...(next.synced_at && { synced_at: next.synced_at }),
+  };
+}
+
+/**
+ * Bring a cached collection up to date for the current account. Shipments
+ * sync incrementally once a complete copy exists; `full` forces a re-fetch.
+ */
+export function syncCollection(collection: CacheCollection, full = false): Promise<SyncOutcome> {
+  const key = `${currentAccount().name}:${collection}`;
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const sync = runSync(collection, full).finally(() => inFlight.delete(key));
+  inFlight.set(key, sync);
+  return sync;
+}
@@ -1,40 +1,177 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { config } from "dotenv";
 
 config();
 
-const CLIENT_ID = process.env.CHITCHATS_CLIENT_ID;
-const ACCESS_TOKEN = process.env.CHITCHATS_ACCESS_TOKEN;
+/**
+ * Read a retry count from the environment. Anything but a non-negative
+ * integer falls back to the default, so a typo can't mean zero attempts or
+ * endless retries.
+ */
+export function retryCount(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
 const BASE_URL = process.env.CHITCHATS_BASE_URL || "https://chitchats.com";
+const MAX_PAGES = Number(process.env.CHITCHATS_MAX_PAGES) || 20;
+const MAX_PAGE_SIZE = 1000;
+const TIMEOUT_MS = Number(process.env.CHITCHATS_TIMEOUT_MS) || 30000;
+const MAX_RETRIES = retryCount("CHITCHATS_MAX_RETRIES", 3);
+// API limit is 2,000 requests per 5-minute window
+const RATE_LIMIT = Number(process.env.CHITCHATS_RATE_LIMIT) || 2000;
+const RATE_WINDOW_MS = 5 * 60 * 1000;
+const RATE_BURST = Number(process.env.CHITCHATS_RATE_BURST) || 100;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10000;
+// Don't sit on a request longer than this because of a Retry-After header
+const MAX_RETRY_AFTER_MS = 60000;
 
-if (!CLIENT_ID || !ACCESS_TOKEN) {
-  console.error(
-    "Missing CHITCHATS_CLIENT_ID or CHITCHATS_ACCESS_TOKEN in environment"
-  );
-}
+// Methods that are safe to repeat after a network failure or 5xx
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+// timeout: no response within CHITCHATS_TIMEOUT_MS
+// network: the request never reached the API (DNS, connection reset, ...)
+// rate_limited: the API answered 429 and retries were exhausted
+// http: the API rejected the request (4xx/5xx)
+// parse: the API answered 2xx with a body that isn't JSON
+export type ApiErrorKind = "timeout" | "network" | "rate_limited" | "http" | "parse";
 
 export interface ApiResponse<T> {
   data?: T;
   error?: string;
+  errorKind?: ApiErrorKind;
+  // 0 when no HTTP response was received
   status: number;
+  attempts?: number;
+  retryAfterMs?: number;
 }
 
 export interface PaginatedResponse<T> {
   data: T[];
   hasMore: boolean;
   total?: number;
+  pages: number;
+  // Why paging stopped early, if it did
+  stoppedBy?: "max_records" | "page_ceiling" | "error" | "found";
+  error?: string;
+}
+
+export interface PaginateOptions<T = unknown> {
+  maxRecords?: number;
+  pageSize?: number;
+  // Stop after the first page holding a record this accepts
+  find?: (record: T) => boolean;
+}
+
+export interface Account {
+  name: string;
+  clientId: string;
+  accessToken: string;
+  baseUrl: string;
+}
+
+// Client-side token bucket so bursts of tool calls stay under the API limit
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(
+    private capacity: number,
+    private refillPerMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+
+  // Called on a 429: the server says we're over, so stop bursting
+  drain(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function shouldRetry(response: ApiResponse<unknown>, idempotent: boolean): boolean {
+  // A 429 means the request was not processed, so any method can be retried
+  if (response.errorKind === "rate_limited") {
+    return (response.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS;
+  }
+  if (!idempotent) return false;
+  if (response.errorKind === "network" || response.errorKind === "timeout") {
+    return true;
+  }
+  return response.errorKind === "http" && response.status >= 500;
+}
+
+// The connection dropped or timed out while reading the response body
+function bodyReadError(err: unknown, status: number): ApiResponse<never> {
+  const timedOut = err instanceof Error && err.name === "TimeoutError";
+  return {
+    error: timedOut
+      ? `Request timed out after ${TIMEOUT_MS}ms`
+      : `Network error: ${err instanceof Error ? err.message : "Unknown error"}`,
+    errorKind: timedOut ? "timeout" : "network",
+    status,
+  };
 }
 
 class ChitChatsClient {
   private baseUrl: string;
-  private clientId: string;
+  private origin: string;
   private accessToken: string;
 
-  constructor() {
-    this.baseUrl = `${BASE_URL}/api/v1/clients/${CLIENT_ID}`;
-    this.clientId = CLIENT_ID || "";
-    this.accessToken = ACCESS_TOKEN || "";
+  constructor(account: Account) {
+    this.baseUrl = `${account.baseUrl}/api/v1/clients/${account.clientId}`;
+    this.origin = account.baseUrl;
+    this.accessToken = account.accessToken;
   }
 
+  private bucket = new TokenBucket(RATE_BURST, RATE_LIMIT / RATE_WINDOW_MS);
+
   private async request<T>(
     method: string,
     endpoint: string,
@@ -51,41 +188,121 @@ class ChitChatsClient {
       headers["Content-Type"] = "application/json";
     }
 
+    return this.send<T>(
+      url,
+      { method, headers, body: body ? JSON.stringify(body) : undefined },
+      IDEMPOTENT_METHODS.has(method)
+    );
+  }
+
+  // Rate-limit, send and retry a request according to the retry policy
+  private async send<T>(
+    url: string,
+    init: RequestInit,
+    idempotent: boolean,
+    binary = false
+  ): Promise<ApiResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      const response = await this.attempt<T>(url, init, binary);
+
+      if (response.errorKind === "rate_limited") {
+        this.bucket.drain();
+      }
+
+      if (attempt >= MAX_RETRIES || !shouldRetry(response, idempotent)) {
+        return { ...response, attempts: attempt + 1 };
+      }
+
+      await sleep(response.retryAfterMs ?? backoffDelay(attempt));
+    }
+  }
+
+  private async attempt<T>(
+    url: string,
+    init: RequestInit,
+    binary: boolean
+  ): Promise<ApiResponse<T>> {
+    let response: Response;
     try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
+      response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
       });
-
-      if (response.status === 429) {
-        const retryAfter = response.headers.get("Retry-After");
+    } catch (err) {
+      if (err instanceof Error && err.name === "TimeoutError") {
         return {
-          error: `Rate limited. Retry after ${retryAfter || "unknown"} seconds.`,
-          status: 429,
+          error: `Request timed out after ${TIMEOUT_MS}ms`,
+          errorKind: "timeout",
+          status: 0,
         };
       }
+      return {
+        error: `Network error: ${err instanceof Error ? err.message : "Unknown error"}`,
+        errorKind: "network",
+        status: 0,
+      };
+    }
 
-      if (response.status === 204) {
-        return { status: 204 };
-      }
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+      return {
+        error: `Rate limited. Retry after ${
+          retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : "unknown"
+        } seconds.`,
+        errorKind: "rate_limited",
+        status: 429,
+        retryAfterMs,
+      };
+    }
 
-      const data = await response.json();
+    if (response.status === 204) {
+      return { status: 204 };
+    }
 
+    if (binary) {
       if (!response.ok) {
+        return { error: `HTTP ${response.status}`, errorKind: "http", status: response.status };
+      }
+      try {
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        return { data: bytes as T, status: response.status };
+      } catch (err) {
+        return bodyReadError(err, response.status);
+      }
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (err) {
+      return bodyReadError(err, response.status);
+    }
+
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      if (response.ok) {
         return {
-          error: data.error || data.message || `HTTP ${response.status}`,
+          error: `Invalid JSON in response (HTTP ${response.status})`,
+          errorKind: "parse",
           status: response.status,
         };
       }
+    }
 
-      return { data, status: response.status };
-    } catch (err) {
+    if (!response.ok) {
+      const body = (data && typeof data === "object" ? data : {}) as { error?: unknown; message?: unknown };
+      const message = typeof body.error === "string" ? body.error : body.message;
       return {
-        error: err instanceof Error ? err.message : "Unknown error",
-        status: 500,
+        error: typeof message === "string" && message ? message : `HTTP ${response.status}`,
+        errorKind: "http",
+        status: response.status,
       };
     }
+
+    return { data: data as T, status: response.status };
   }
 
   async get<T>(endpoint: string): Promise<ApiResponse<T>> {
@@ -110,21 +327,186 @@ class ChitChatsClient {
     return this.request<T>("DELETE", endpoint);
   }
 
+  // Walk every page of a list endpoint until a short page comes back, the
+  // record limit is reached, a wanted record turns up, or the page ceiling
+  // is hit.
+  async getAllPages<T>(
+    path: string,
+    query: URLSearchParams = new URLSearchParams(),
+    options: PaginateOptions<T> = {}
+  ): Promise<PaginatedResponse<T>> {
+    // The page size must stay fixed across requests or page offsets drift
+    const pageSize = Math.min(
+      options.pageSize || MAX_PAGE_SIZE,
+      options.maxRecords || MAX_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    );
+    const data: T[] = [];
+    let pages = 0;
+
+    while (pages < MAX_PAGES) {
+      const pageQuery = new URLSearchParams(query);
+      pageQuery.set("limit", pageSize.toString());
+      pageQuery.set("page", (pages + 1).toString());
+
+      const response = await this.get<T[]>(`${path}?${pageQuery.toString()}`);
+      pages++;
+
+      if (response.error) {
+        return { data, hasMore: true, pages, stoppedBy: "error", error: response.error };
+      }
+
+      const page = response.data || [];
+      data.push(...page);
+
+      if (options.find && page.some(options.find)) {
+        return { data, hasMore: page.length === pageSize, pages, stoppedBy: "found" };
+      }
+
+      if (options.maxRecords !== undefined && data.length >= options.maxRecords) {
+        return {
+          data: data.slice(0, options.maxRecords),
+          hasMore: data.length > options.maxRecords || page.length === pageSize,
+          pages,
+          stoppedBy: "max_records",
+        };
+      }
+
+      // A short page means we've reached the end
+      if (page.length < pageSize) {
+        return { data, hasMore: false, total: data.length, pages };
+      }
+    }
+
+    return { data, hasMore: true, pages, stoppedBy: "page_ceiling" };
+  }
+
+  // Download a file such as a label. The access token is only sent to the
+  // Chit Chats host, never to third-party storage URLs.
+  async download(url: string): Promise<ApiResponse<Uint8Array>> {
+    const target = new URL(url, this.origin);
+    const headers: Record<string, string> =
+      target.origin === new URL(this.origin).origin ? { Authorization: this.accessToken } : {};
+
+    return this.send<Uint8Array>(target.toString(), { method: "GET", headers }, true, true);
+  }
+
   // Public tracking endpoint (no auth needed)
   async getPublicTracking(shipmentId: string): Promise<ApiResponse<unknown>> {
+    return this.send(
+      `${this.origin}/tracking/${shipmentId}.json`,
+      { method: "GET", headers: { Accept: "application/json" } },
+      true
+    );
+  }
+}
+
+// Accounts come from CHITCHATS_ACCOUNTS, a JSON object of
+// name -> { client_id, access_token, base_url? }, plus a "default" account
+// from CHITCHATS_CLIENT_ID / CHITCHATS_ACCESS_TOKEN. Each account gets its
+// own client, so rate limiting is tracked per account.
+function loadAccounts(): Map<string, { account: Account; client: ChitChatsClient }> {
+  const accounts = new Map<string, Account>();
+
+  if (process.env.CHITCHATS_ACCOUNTS) {
     try {
-      const response = await fetch(
-        `${BASE_URL}/tracking/${shipmentId}.json`
-      );
-      const data = await response.json();
-      return { data, status: response.status };
-    } catch (err) {
-      return {
-        error: err instanceof Error ? err.message : "Unknown error",
-        status: 500,
-      };
+      const config = JSON.parse(process.env.CHITCHATS_ACCOUNTS) as Record<
+        string,
+        { client_id?: string; access_token?: string; base_url?: string }
+      >;
+      for (const [name, a] of Object.entries(config)) {
+        if (!a.client_id || !a.access_token) {
+          console.error(
+            `Account "${name}" in CHITCHATS_ACCOUNTS needs client_id and access_token; skipping`
+          );
+          continue;
+        }
+        accounts.set(name, {
+          name,
+          clientId: a.client_id,
+          accessToken: a.access_token,
+          baseUrl: (a.base_url || BASE_URL).replace(/\/+$/, ""),
+        });
+      }
+    } catch {
+      console.error("CHITCHATS_ACCOUNTS is not valid JSON; ignoring it");
     }
   }
+
+  const clientId = process.env.CHITCHATS_CLIENT_ID;
+  const accessToken = process.env.CHITCHATS_ACCESS_TOKEN;
+  if (clientId && accessToken && !accounts.has("default")) {
+    accounts.set("default", { name: "default", clientId, accessToken, baseUrl: BASE_URL });
+  }
+
+  if (accounts.size === 0) {
+    console.error(
+      "Missing CHITCHATS_CLIENT_ID or CHITCHATS_ACCESS_TOKEN in environment"
+    );
+    // Keep the server usable for listing tools; API calls will be rejected
+    accounts.set("default", { name: "default", clientId: "", accessToken: "", baseUrl: BASE_URL });
+  }
+
+  return new Map(
+    [...accounts].map(([name, account]) => [name, { account, client: new ChitChatsClient(account) }])
+  );
+}
+
+const accounts = loadAccounts();
+
+const DEFAULT_ACCOUNT = (() => {
+  const wanted = process.env.CHITCHATS_DEFAULT_ACCOUNT;
+  if (wanted && accounts.has(wanted)) return wanted;
+  if (wanted) {
+    console.error(`CHITCHATS_DEFAULT_ACCOUNT "${wanted}" is not configured; ignoring it`);
+  }
+  return accounts.has("default") ? "default" : [...accounts.keys()][0];
+})();
+
+// Account selected for the tool call currently running
+const accountContext = new AsyncLocalStorage<string>();
+
+export function getAccounts(): Account[] {
+  return [...accounts.values()].map((entry) => entry.account);
+}
+
+export function defaultAccountName(): string {
+  return DEFAULT_ACCOUNT;
+}
+
+// Look up an account by name, falling back to the default account
+export function findAccount(name?: string): Account | string {
+  const entry = accounts.get(name || DEFAULT_ACCOUNT);
+  return (
+    entry?.account ||
+    `Unknown account "${name}". Configured accounts: ${[...accounts.keys()].join(", ")}`
+  );
+}
+
+// Run fn with every client call inside it going to the named account
+export function withAccount<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  return accountContext.run(name, fn);
+}
+
+export function currentAccount(): Account {
+  return accounts.get(accountContext.getStore() || DEFAULT_ACCOUNT)!.account;
+}
+
+function activeClient(): ChitChatsClient {
+  return accounts.get(accountContext.getStore() || DEFAULT_ACCOUNT)!.client;
 }
 
-export const client = new ChitChatsClient();
+// The client every tool uses. Calls go to the account selected with
+// withAccount, or the default account outside of one.
+export const client = {
+  get: <T>(endpoint: string) => activeClient().get<T>(endpoint),
+  post: <T>(endpoint: string, body?: Record<string, unknown>) =>
+    activeClient().post<T>(endpoint, body),
+  patch: <T>(endpoint: string, body?: Record<string, unknown>) =>
+    activeClient().patch<T>(endpoint, body),
+  delete: <T>(endpoint: string) => activeClient().delete<T>(endpoint),
+  getAllPages: <T>(path: string, query?: URLSearchParams, options?: PaginateOptions<T>) =>
+    activeClient().getAllPages<T>(path, query, options),
+  download: (url: string) => activeClient().download(url),
+  getPublicTracking: (shipmentId: string) => activeClient().getPublicTracking(shipmentId),
+};
@@ -0,0 +1,80 @@
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes,
+// embedded newlines and CRLF line endings.
+
+export function parseCsv(input: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Parse CSV with a header row into one object per record, keyed by header
+export function parseCsvRecords(
+  input: string,
+  delimiter = ","
+): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(input, delimiter);
+  const headers = (headerRow || []).map((h) => h.trim());
+
+  const records = rows.map((values) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      record[header] = (values[i] ?? "").trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: Record<string, unknown>[]): string {
+  const lines = [headers.map(escapeCsvField).join(",")];
+  for (const row of rows) {
+    lines.push(headers.map((h) => escapeCsvField(row[h])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
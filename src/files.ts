@@ -0,0 +1,49 @@
+import { realpath } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path";
+
+// Directory that file paths given to tools (imports, exports, labels,
+// manifests) must stay inside. Unset means unrestricted, which is only the
+// case on stdio: the HTTP transport confines paths to the working directory.
+let filesDir = process.env.CHITCHATS_FILES_DIR
+  ? resolve(process.env.CHITCHATS_FILES_DIR)
+  : undefined;
+
+export function confineFiles(dir: string): string {
+  filesDir ??= resolve(dir);
+  return filesDir;
+}
+
+function isInside(dir: string, target: string): boolean {
+  const rel = relative(dir, target);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+// The real location of a path that may not exist yet: its deepest existing
+// ancestor with symlinks resolved, plus the rest
+async function realLocation(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    const parent = dirname(path);
+    if (parent === path) return path;
+    return resolve(await realLocation(parent), relative(parent, path));
+  }
+}
+
+/**
+ * Resolve a file path a tool was given. Relative paths are taken from
+ * CHITCHATS_FILES_DIR when it is set, and anything that leads outside it,
+ * through `..`, an absolute path or a symlink, is refused.
+ */
+export async function resolveToolPath(
+  path: string
+): Promise<{ path: string; error?: undefined } | { path?: undefined; error: string }> {
+  if (!filesDir) return { path: resolve(path) };
+
+  const target = resolve(filesDir, path);
+  const base = await realLocation(filesDir);
+  if (!isInside(filesDir, target) || !isInside(base, await realLocation(target))) {
+    return { error: `outside the allowed files directory (${filesDir})` };
+  }
+  return { path: target };
+}
@@ -0,0 +1,297 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { z } from "zod";
+import { client, currentAccount } from "./client.js";
+import type { BuyPostageSchema, RefundShipmentSchema } from "./schemas.js";
+import { buyPostage, refundShipment } from "./tools/shipments.js";
+import type { Rate, Shipment } from "./tools/shipments.js";
+import { toolError, type ToolResult } from "./results.js";
+
+// Spend caps in dollars; unset means no cap
+const MAX_SPEND_PER_CALL = parseCap(process.env.CHITCHATS_MAX_SPEND_PER_CALL);
+const MAX_SPEND_PER_DAY = parseCap(process.env.CHITCHATS_MAX_SPEND_PER_DAY);
+
+function parseCap(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const cap = Number(value);
+  return Number.isFinite(cap) && cap >= 0 ? cap : undefined;
+}
+
+export interface SpendReservation {
+  account: string;
+  amount: number;
+}
+
+interface DaySpend {
+  day: string;
+  amount: number;
+}
+
+// Settled spend per account for its current day, persisted so a restart
+// doesn't reset the daily cap
+const SPEND_FILE = resolve(process.env.CHITCHATS_SPEND_FILE || ".chitchats-spend.json");
+
+let ledger: Promise<Record<string, DaySpend>> | undefined;
+let saving: Promise<void> = Promise.resolve();
+// Amounts held by purchases that are still in flight, per account
+const reserved = new Map<string, number>();
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function loadLedger(): Promise<Record<string, DaySpend>> {
+  ledger ??= readFile(SPEND_FILE, "utf8")
+    .then((content) => JSON.parse(content) as Record<string, DaySpend>)
+    .catch((error) => {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Could not read ${SPEND_FILE}; daily spend starts at zero:`, error);
+      }
+      return {};
+    });
+  return ledger;
+}
+
+// Write through a temp file, one save at a time
+function saveLedger(entries: Record<string, DaySpend>): Promise<void> {
+  saving = saving
+    .then(async () => {
+      await mkdir(dirname(SPEND_FILE), { recursive: true });
+      await writeFile(`${SPEND_FILE}.tmp`, JSON.stringify(entries));
+      await rename(`${SPEND_FILE}.tmp`, SPEND_FILE);
+    })
+    .catch((error) => console.error(`Could not save ${SPEND_FILE}:`, error));
+  return saving;
+}
+
+function spentToday(entries: Record<string, DaySpend>, account: string): number {
+  const entry = entries[account];
+  return entry?.day === today() ? entry.amount : 0;
+}
+
+function money(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Returns a refusal message if buying at this cost would break a cap. Spend
+// held by purchases still in flight counts toward the daily cap.
+function checkSpendCaps(amount: number, spent: number): string | undefined {
+  if (MAX_SPEND_PER_CALL !== undefined && amount > MAX_SPEND_PER_CALL) {
+    return `Refusing to buy postage: ${money(amount)} exceeds the per-purchase cap of ${money(MAX_SPEND_PER_CALL)} (CHITCHATS_MAX_SPEND_PER_CALL).`;
+  }
+
+  if (MAX_SPEND_PER_DAY !== undefined && spent + amount > MAX_SPEND_PER_DAY) {
+    return `Refusing to buy postage: ${money(amount)} on top of ${money(spent)} already spent today would exceed the daily cap of ${money(MAX_SPEND_PER_DAY)} (CHITCHATS_MAX_SPEND_PER_DAY). Remaining today: ${money(Math.max(0, MAX_SPEND_PER_DAY - spent))}.`;
+  }
+
+  return undefined;
+}
+
+// Today's spend for the current account, settled plus in flight
+async function committedSpend(): Promise<number> {
+  const account = currentAccount().name;
+  return spentToday(await loadLedger(), account) + (reserved.get(account) || 0);
+}
+
+/**
+ * Check a purchase against the caps without holding anything, for previews.
+ */
+export async function previewSpend(amount: number): Promise<string | undefined> {
+  return checkSpendCaps(amount, await committedSpend());
+}
+
+/**
+ * Check a purchase against the caps and hold its amount until it is settled
+ * or released, so concurrent purchases can't each pass the daily cap.
+ * Returns the refusal message instead when the caps don't allow it.
+ */
+export async function reserveSpend(amount: number): Promise<SpendReservation | string> {
+  const account = currentAccount().name;
+  const entries = await loadLedger();
+  // No await between the check and the hold
+  const refusal = checkSpendCaps(
+    amount,
+    spentToday(entries, account) + (reserved.get(account) || 0)
+  );
+  if (refusal) return refusal;
+
+  reserved.set(account, (reserved.get(account) || 0) + amount);
+  return { account, amount };
+}
+
+export function releaseSpend(reservation: SpendReservation): void {
+  const remaining = (reserved.get(reservation.account) || 0) - reservation.amount;
+  if (remaining > 1e-9) {
+    reserved.set(reservation.account, remaining);
+  } else {
+    reserved.delete(reservation.account);
+  }
+}
+
+// Swap a reservation for what was actually charged and persist it
+async function settleSpend(reservation: SpendReservation, charged: number): Promise<void> {
+  const entries = await loadLedger();
+  releaseSpend(reservation);
+  entries[reservation.account] = {
+    day: today(),
+    amount: spentToday(entries, reservation.account) + charged,
+  };
+  await saveLedger(entries);
+}
+
+function spendStatus(spent: number): Record<string, number> {
+  return {
+    spent_today: spent,
+    ...(MAX_SPEND_PER_CALL !== undefined && { per_call_cap: MAX_SPEND_PER_CALL }),
+    ...(MAX_SPEND_PER_DAY !== undefined && { per_day_cap: MAX_SPEND_PER_DAY }),
+  };
+}
+
+// The rate that buying will charge: the one matching the shipment's postage_type
+/**
+ * What buying at a rate costs. Caps, previews and rate selection all price
+ * from this, so they agree on the amount.
+ */
+export function rateCost(rate: Rate): number {
+  return Number(rate.purchase_amount);
+}
+
+function selectedRate(s: Shipment): Rate | undefined {
+  return s.rates?.find((rate) => rate.postage_type === s.postage_type);
+}
+
+/**
+ * Buy postage once the spend caps allow it. A caller that already checked
+ * the caps (buyBestRate, before switching rates) passes its reservation,
+ * which this takes over: it is settled on success and released otherwise.
+ */
+export async function guardedBuyPostage(
+  params: z.infer<typeof BuyPostageSchema>,
+  held?: SpendReservation
+): Promise<ToolResult> {
+  let reservation = held;
+  try {
+    const response = await client.get<{ shipment: Shipment }>(
+      `/shipments/${params.id}`
+    );
+
+    if (response.error) {
+      return toolError(`Error checking shipment before purchase: ${response.error}`);
+    }
+
+    const s = response.data?.shipment;
+    if (!s) {
+      return toolError(`Shipment ${params.id} not found.`);
+    }
+
+    const rate = selectedRate(s);
+    if (!rate) {
+      return toolError(
+        `Cannot determine the cost for shipment ${s.id}: ${
+          s.postage_type
+            ? `postage type "${s.postage_type}" is not among its rates`
+            : "no postage type is selected"
+        }. Refresh rates or set a postage type before buying.`
+      );
+    }
+
+    const amount = rateCost(rate);
+    if (!Number.isFinite(amount)) {
+      return toolError(`Refusing to buy postage: rate "${rate.postage_type}" has no usable purchase amount.`);
+    }
+
+    if (params.dry_run) {
+      const spent = await committedSpend();
+      const refusal = checkSpendCaps(amount, spent);
+      const lines = [
+        `## Postage Preview for Shipment ${s.id}`,
+        "",
+        `**Rate:** ${rate.postage_description} (${rate.postage_type})`,
+        `**Carrier:** ${rate.postage_carrier_type}`,
+        `**Cost:** ${money(amount)}`,
+      ];
+      if (rate.delivery_time_description) lines.push(`**Delivery:** ${rate.delivery_time_description}`);
+      lines.push(`**Spent Today:** ${money(spent)}`);
+      if (MAX_SPEND_PER_CALL !== undefined) lines.push(`**Per-Purchase Cap:** ${money(MAX_SPEND_PER_CALL)}`);
+      if (MAX_SPEND_PER_DAY !== undefined) lines.push(`**Daily Cap:** ${money(MAX_SPEND_PER_DAY)}`);
+      lines.push("", refusal ? `**Would be refused:** ${refusal}` : "Dry run only - no postage was purchased.");
+
+      return {
+        text: lines.join("\n"),
+        structured: {
+          id: s.id,
+          action: "postage_preview",
+          preview: { rate, amount, allowed: !refusal, ...spendStatus(spent) },
+        },
+      };
+    }
+
+    // The rate may have moved since the caller's check; hold the new amount
+    if (!reservation || reservation.amount < amount) {
+      if (reservation) releaseSpend(reservation);
+      reservation = undefined;
+      const hold = await reserveSpend(amount);
+      if (typeof hold === "string") {
+        return toolError(hold);
+      }
+      reservation = hold;
+    }
+
+    const result = await buyPostage(params);
+    if (!result.isError) {
+      // Prefer what was actually charged; fall back to the quoted rate
+      const charged = Number(
+        (result.structured?.shipment as Shipment | undefined)?.purchase_amount
+      );
+      const settled = reservation;
+      reservation = undefined;
+      await settleSpend(settled, Number.isFinite(charged) ? charged : amount);
+    }
+
+    return result;
+  } finally {
+    if (reservation) releaseSpend(reservation);
+  }
+}
+
+export async function guardedRefundShipment(
+  params: z.infer<typeof RefundShipmentSchema>
+): Promise<ToolResult> {
+  if (!params.dry_run) {
+    return refundShipment(params);
+  }
+
+  const response = await client.get<{ shipment: Shipment }>(
+    `/shipments/${params.id}`
+  );
+
+  if (response.error) {
+    return toolError(`Error checking shipment before refund: ${response.error}`);
+  }
+
+  const s = response.data?.shipment;
+  if (!s) {
+    return toolError(`Shipment ${params.id} not found.`);
+  }
+
+  const lines = [
+    `## Refund Preview for Shipment ${s.id}`,
+    "",
+    `**Status:** ${s.status}`,
+    `**Postage:** ${s.postage_type || "N/A"}${s.carrier ? ` via ${s.carrier}` : ""}`,
+    `**Amount Paid:** ${s.purchase_amount ? `$${s.purchase_amount}` : "Nothing purchased"}`,
+    "",
+    "Dry run only - no refund was requested.",
+  ];
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      id: s.id,
+      action: "refund_preview",
+      shipment: s,
+      preview: { amount: Number(s.purchase_amount) || 0 },
+    },
+  };
+}
@@ -0,0 +1,333 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { confineFiles } from "./files.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  // Last request seen for the session (ms)
+  lastActive: number;
+  // The legacy SSE stream, which keeps its session alive while open
+  stream?: ServerResponse;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Sessions with no requests for this long are closed, and at most this many
+// are open at once, so clients that vanish without DELETE don't pile up
+const SESSION_TTL_MS = (Number(process.env.CHITCHATS_HTTP_SESSION_TTL_MINUTES) || 30) * 60000;
+const MAX_SESSIONS = Number(process.env.CHITCHATS_HTTP_MAX_SESSIONS) || 100;
+const SWEEP_INTERVAL_MS = 60000;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+const TOKENS = (process.env.CHITCHATS_HTTP_TOKEN || "")
+  .split(",")
+  .map((token) => token.trim())
+  .filter(Boolean);
+
+const CORS_ORIGINS = (process.env.CHITCHATS_HTTP_CORS_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Host headers accepted besides the loopback names; needed when the server is
+// reached through a hostname on a loopback bind
+const ALLOWED_HOSTS = (process.env.CHITCHATS_HTTP_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const CORS_ALLOW_HEADERS = [
+  "Content-Type",
+  "Authorization",
+  "Mcp-Session-Id",
+  "Mcp-Protocol-Version",
+  "Last-Event-ID",
+].join(", ");
+
+// Hash both sides so the comparison is constant-time regardless of length
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+const TOKEN_DIGESTS = TOKENS.map(digest);
+
+function isAuthorized(req: IncomingMessage): boolean {
+  if (TOKEN_DIGESTS.length === 0) return true;
+
+  const match = (req.headers.authorization || "").match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const presented = digest(match[1].trim());
+  return TOKEN_DIGESTS.some((expected) => timingSafeEqual(expected, presented));
+}
+
+function hostnameOf(host: string): string | undefined {
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guard against DNS rebinding. A web page can point its own hostname at
+ * 127.0.0.1 and reach a local server, but its requests still carry that
+ * hostname in Host and its own site in Origin. On a loopback bind only
+ * loopback (or CHITCHATS_HTTP_ALLOWED_HOSTS) Host headers pass; browser
+ * requests must come from the same origin or a configured CORS origin.
+ */
+function isAllowedRequest(req: IncomingMessage, bindHost: string): boolean {
+  const host = (req.headers.host || "").toLowerCase();
+  const hostname = hostnameOf(host);
+  if (!hostname) return false;
+
+  const hostAllowed =
+    ALLOWED_HOSTS.includes(host) ||
+    ALLOWED_HOSTS.includes(hostname) ||
+    LOOPBACK_HOSTS.has(hostname) ||
+    // Off loopback a token is required, so any Host is fine unless listed
+    (!LOOPBACK_HOSTS.has(bindHost) && ALLOWED_HOSTS.length === 0);
+  if (!hostAllowed) return false;
+
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (CORS_ORIGINS.includes("*") || CORS_ORIGINS.includes(origin)) return true;
+  try {
+    return new URL(origin).host.toLowerCase() === host;
+  } catch {
+    return false;
+  }
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse): void {
+  const origin = req.headers.origin;
+  if (!origin || CORS_ORIGINS.length === 0) return;
+
+  if (CORS_ORIGINS.includes("*")) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+  } else if (CORS_ORIGINS.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+  } else {
+    return;
+  }
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", CORS_ALLOW_HEADERS);
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC shaped error, as MCP clients expect from the transport endpoints
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) and the legacy SSE transport
+ * (`GET /sse` + `POST /messages`). Each client session gets its own MCP
+ * server instance from `createServer`.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpOptions
+): Promise<void> {
+  if (TOKENS.length === 0) {
+    if (!LOOPBACK_HOSTS.has(options.host)) {
+      throw new Error(
+        `Refusing to listen on ${options.host} without authentication. Set CHITCHATS_HTTP_TOKEN or bind to 127.0.0.1.`
+      );
+    }
+    console.error("Warning: CHITCHATS_HTTP_TOKEN is not set; HTTP transport is unauthenticated");
+  }
+
+  // Remote callers must not read or write arbitrary files through tool paths
+  const filesDir = confineFiles(process.cwd());
+
+  const sessions = new Map<string, Session>();
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastActive < cutoff && !session.stream?.writable) {
+        sessions.delete(id);
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  // Refuse a new session when the cap is reached; returns true if refused
+  function atCapacity(res: ServerResponse): boolean {
+    if (sessions.size < MAX_SESSIONS) return false;
+    sendRpcError(res, 503, `Too many open sessions (${MAX_SESSIONS}); try again later`);
+    return true;
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (existing) {
+      existing.lastActive = Date.now();
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 400, "Session belongs to the SSE transport");
+        return;
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, "No session: send an initialize request first");
+      return;
+    }
+    if (atCapacity(res)) return;
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActive: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    if (atCapacity(res)) return;
+    const server = createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, { transport, server, lastActive: Date.now(), stream: res });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const session = sessions.get(url.searchParams.get("sessionId") || "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+    session.lastActive = Date.now();
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    try {
+      if (!isAllowedRequest(req, options.host)) {
+        sendRpcError(res, 403, "Forbidden: Host or Origin not allowed");
+        return;
+      }
+
+      applyCors(req, res);
+
+      if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok" });
+        return;
+      }
+
+      if (!isAuthorized(req)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendRpcError(res, 401, "Unauthorized");
+        return;
+      }
+
+      if (url.pathname === "/mcp" && ["GET", "POST", "DELETE"].includes(req.method || "")) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof SyntaxError) {
+        sendRpcError(res, 400, `Invalid JSON: ${message}`);
+      } else {
+        sendRpcError(res, 500, message);
+      }
+    }
+  });
+
+  const shutdown = () => {
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) {
+      transport.close().catch(() => undefined);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+
+  console.error(
+    `Chit Chats MCP server listening on http://${options.host}:${options.port} (/mcp, /sse, /health)`
+  );
+  console.error(`Tool file paths are confined to ${filesDir}`);
+}
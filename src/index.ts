@@ -7,6 +7,7 @@ import {
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { config } from "dotenv";
+import { parseArgs } from "node:util";
 
 // Load environment variables
 config();
@@ -16,20 +17,35 @@ import {
   ListShipmentsSchema,
   GetShipmentSchema,
   CreateShipmentSchema,
+  ValidateAddressSchema,
+  ImportShipmentsCsvSchema,
+  ImportShopifyOrdersSchema,
+  ExportShipmentsSchema,
+  CostReportSchema,
+  SyncCacheSchema,
+  ReplayWebhooksSchema,
+  QueryCacheSchema,
   DeleteShipmentSchema,
   BuyPostageSchema,
+  BuyBestRateSchema,
   RefundShipmentSchema,
   RefreshRatesSchema,
   CountShipmentsSchema,
   ListBatchesSchema,
   CreateBatchSchema,
   GetBatchSchema,
+  BatchManifestSchema,
+  AutoBatchSchema,
   DeleteBatchSchema,
   AddToBatchSchema,
   RemoveFromBatchSchema,
   CountBatchesSchema,
   ListReturnsSchema,
+  GetReturnSchema,
   TrackShipmentSchema,
+  TrackingWatcherSchema,
+  DownloadLabelsSchema,
+  PrintLabelsSchema,
 } from "./schemas.js";
 
 // Import tool handlers
@@ -41,8 +57,6 @@ import {
   getShipmentLineItems,
   createShipment,
   deleteShipment,
-  buyPostage,
-  refundShipment,
   refreshRates,
   countShipments,
 } from "./tools/shipments.js";
@@ -55,23 +69,31 @@ import {
   addToBatch,
   removeFromBatch,
   countBatches,
+  autoBatch,
 } from "./tools/batches.js";
 
-import { listReturns } from "./tools/returns.js";
-import { trackShipment } from "./tools/tracking.js";
-
-// Create server
-const server = new Server(
-  {
-    name: "chitchats-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+import { getReturn, listReturns } from "./tools/returns.js";
+import { trackShipment, trackingWatcher } from "./tools/tracking.js";
+import { buyBestRate } from "./tools/rates.js";
+import { importShipmentsCsv } from "./tools/imports.js";
+import { importShopifyOrders } from "./tools/shopify.js";
+import { exportShipments } from "./tools/exports.js";
+import { costReport } from "./tools/reports.js";
+import { queryCache, syncCache } from "./tools/cache.js";
+import { replayWebhooks } from "./tools/webhooks.js";
+import { downloadLabels, printLabels } from "./tools/labels.js";
+import { batchManifest } from "./tools/manifests.js";
+import { guardedBuyPostage, guardedRefundShipment } from "./guards.js";
+import type { ToolResult } from "./results.js";
+import { outputSchemas } from "./output-schemas.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { startHttpServer } from "./http.js";
+import { attachTrackingWatcher, startWatcherFromEnv, watchAccount } from "./watcher.js";
+import { emitToolEvent } from "./webhooks.js";
+import { findAccount, getAccounts, withAccount } from "./client.js";
+import { listAccounts } from "./tools/accounts.js";
+import { validateAddress } from "./tools/addresses.js";
 
 // Define tools
 const tools = [
@@ -79,7 +101,7 @@ const tools = [
   {
     name: "chitchats_list_shipments",
     description:
-      "List and search shipments with filters. Use this to find shipments by order ID, status, date range, or batch. Supports pagination.",
+      "List and search shipments with filters. Use this to find shipments by order ID, status, date range, or batch. Supports pagination, or set all/max_records to fetch every page (needed for accurate totals).",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -91,6 +113,15 @@ const tools = [
           type: "number",
           description: "Page number for pagination",
         },
+        all: {
+          type: "boolean",
+          description:
+            "Fetch every page until exhausted (limit becomes the page size). Use for totals and reports.",
+        },
+        max_records: {
+          type: "number",
+          description: "Fetch pages until this many records are collected (implies all)",
+        },
         batch_id: {
           type: "string",
           description: "Filter by batch ID",
@@ -114,6 +145,7 @@ const tools = [
         },
       },
     },
+    outputSchema: outputSchemas.shipmentList,
     annotations: { readOnlyHint: true },
   },
   {
@@ -130,6 +162,7 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.shipment,
     annotations: { readOnlyHint: true },
   },
   {
@@ -143,6 +176,7 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.rates,
     annotations: { readOnlyHint: true },
   },
   {
@@ -156,8 +190,63 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.labels,
     annotations: { readOnlyHint: true },
   },
+  {
+    name: "chitchats_download_labels",
+    description:
+      "Download labels to local files for one shipment, a list of shipment IDs, or a whole batch. Files are saved as shipment-<id>.<format>; PDF and ZPL labels are also merged into one print-ready file. Reports shipments that have no label yet.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Single shipment ID" },
+        shipment_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "List of shipment IDs",
+        },
+        batch_id: { type: "string", description: "Every shipment in this batch" },
+        format: {
+          type: "string",
+          enum: ["pdf", "png", "zpl"],
+          description: "Label format (default: pdf)",
+        },
+        output_dir: {
+          type: "string",
+          description: "Directory to save into (default: CHITCHATS_LABEL_DIR or ./labels)",
+        },
+        merge: {
+          type: "boolean",
+          description: "Combine PDF/ZPL labels into one file (default: true)",
+        },
+      },
+    },
+    outputSchema: outputSchemas.labelDownload,
+  },
+  {
+    name: "chitchats_print_labels",
+    description:
+      "Print ZPL labels for one shipment, a list of shipment IDs, or a whole batch on a configured network thermal printer (raw port 9100). Labels are queued per printer and retried on connection errors. Reports which labels were sent.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Single shipment ID" },
+        shipment_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "List of shipment IDs",
+        },
+        batch_id: { type: "string", description: "Every shipment in this batch" },
+        printer: {
+          type: "string",
+          description: "Printer profile name (default: CHITCHATS_DEFAULT_PRINTER)",
+        },
+        copies: { type: "number", description: "Copies of each label (1-10)" },
+      },
+    },
+    outputSchema: outputSchemas.labelPrint,
+  },
   {
     name: "chitchats_get_line_items",
     description:
@@ -169,12 +258,41 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.lineItems,
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "chitchats_validate_address",
+    description:
+      "Check and normalize an address without creating anything: ISO country codes, Canadian province and US state codes (names are converted to codes), postal/ZIP formats, and phone/email formats. Reports errors that would block chitchats_create_shipment, warnings worth a second look, and every normalization applied.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Recipient name" },
+        address_1: { type: "string", description: "Street address line 1" },
+        address_2: { type: "string", description: "Street address line 2" },
+        city: { type: "string", description: "City" },
+        province_code: {
+          type: "string",
+          description: "Province/state code or name (e.g., ON, California)",
+        },
+        postal_code: { type: "string", description: "Postal/ZIP code" },
+        country_code: {
+          type: "string",
+          description: "Country code or name (e.g., CA, US, United Kingdom)",
+        },
+        phone: { type: "string", description: "Phone number" },
+        email: { type: "string", description: "Email address" },
+      },
+      required: ["country_code"],
+    },
+    outputSchema: outputSchemas.addressValidation,
     annotations: { readOnlyHint: true },
   },
   {
     name: "chitchats_create_shipment",
     description:
-      "Create a new shipment with recipient address, package dimensions, and optional order reference.",
+      "Create a new shipment with recipient address, package dimensions, optional order reference, customs line items, return address, and service options (insurance, signature, media mail, DDP). Addresses are validated and normalized first (province/state codes, postal code formats, country codes); invalid ones are rejected before reaching the API.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -218,6 +336,82 @@ const tools = [
         order_id: { type: "string", description: "External order ID (e.g., Shopify)" },
         order_store: { type: "string", description: "E-commerce platform" },
         postage_type: { type: "string", description: "Postage service type" },
+        return_name: { type: "string", description: "Return address name" },
+        return_address_1: { type: "string", description: "Return street address line 1" },
+        return_address_2: { type: "string", description: "Return street address line 2" },
+        return_city: { type: "string", description: "Return city" },
+        return_province_code: { type: "string", description: "Return province/state code" },
+        return_postal_code: { type: "string", description: "Return postal/ZIP code" },
+        return_country_code: { type: "string", description: "Return country code" },
+        return_phone: { type: "string", description: "Return phone" },
+        is_return_dispose: {
+          type: "boolean",
+          description:
+            "Dispose of the package if undeliverable (cannot be combined with a return address)",
+        },
+        is_insurance_requested: {
+          type: "boolean",
+          description: "Request insurance (requires a declared value)",
+        },
+        is_signature_requested: {
+          type: "boolean",
+          description: "Require a signature on delivery",
+        },
+        is_media_mail_requested: {
+          type: "boolean",
+          description: "USPS Media Mail (US destinations only)",
+        },
+        is_delivery_duties_paid_requested: {
+          type: "boolean",
+          description: "Prepay duties and taxes (international only)",
+        },
+        line_items: {
+          type: "array",
+          description:
+            "Per-item customs data (required by most international destinations)",
+          items: {
+            type: "object",
+            properties: {
+              quantity: { type: "number", description: "Number of units" },
+              description: {
+                type: "string",
+                description: "Item description for customs",
+              },
+              value_amount: { type: "number", description: "Value per unit" },
+              currency_code: {
+                type: "string",
+                enum: ["CAD", "USD"],
+                description: "Value currency",
+              },
+              hs_tariff_code: {
+                type: "string",
+                description: "HS tariff code (e.g., 6109.10)",
+              },
+              sku_code: { type: "string", description: "Item SKU" },
+              origin_country: {
+                type: "string",
+                description: "Country of origin (2-letter code)",
+              },
+              weight: { type: "number", description: "Weight per unit" },
+              weight_unit: {
+                type: "string",
+                enum: ["g", "kg", "oz", "lb"],
+                description: "Weight unit",
+              },
+              manufacturer_id: { type: "string", description: "Manufacturer ID (MID)" },
+              manufacturer_contact: { type: "string", description: "Manufacturer contact name" },
+              manufacturer_street: { type: "string", description: "Manufacturer street address" },
+              manufacturer_street_2: { type: "string", description: "Manufacturer street line 2" },
+              manufacturer_city: { type: "string", description: "Manufacturer city" },
+              manufacturer_postal_code: { type: "string", description: "Manufacturer postal code" },
+              manufacturer_province_code: { type: "string", description: "Manufacturer province/state code" },
+              manufacturer_country_code: { type: "string", description: "Manufacturer country code" },
+              manufacturer_phone: { type: "string", description: "Manufacturer phone" },
+              manufacturer_email: { type: "string", description: "Manufacturer email" },
+            },
+            required: ["quantity", "description", "value_amount", "currency_code"],
+          },
+        },
       },
       required: [
         "name",
@@ -228,6 +422,128 @@ const tools = [
         "country_code",
       ],
     },
+    outputSchema: outputSchemas.createdShipment,
+  },
+  {
+    name: "chitchats_import_shipments_csv",
+    description:
+      "Bulk-create shipments from a local CSV file. Columns match chitchats_create_shipment fields (or are mapped with column_map); line_items columns hold JSON. Every row is validated before anything is created. Returns a per-row table of created shipment IDs and errors, and can put the new shipments into a new batch.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        path: { type: "string", description: "Path to a local CSV file with a header row" },
+        column_map: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            'Shipment field to CSV column header, e.g. {"name": "Ship Name", "postal_code": "Zip"}',
+        },
+        delimiter: { type: "string", description: "Field delimiter (default: comma)" },
+        skip_invalid: {
+          type: "boolean",
+          description: "Create the valid rows even if some rows fail validation",
+        },
+        concurrency: {
+          type: "number",
+          description: "Shipments created in parallel (1-10, default 4)",
+        },
+        batch_description: {
+          type: "string",
+          description: "Create a new batch with this description and add the created shipments",
+        },
+        dry_run: { type: "boolean", description: "Validate rows without creating anything" },
+      },
+      required: ["path"],
+    },
+    outputSchema: outputSchemas.csvImport,
+  },
+  {
+    name: "chitchats_import_shopify_orders",
+    description:
+      "Create shipments from Shopify orders, passed as order JSON or read from a local file (Admin API JSON, JSON Lines, or the admin orders CSV export). Maps the shipping address, order number, weight and line items (SKU, title, price, quantity, HS code and origin from the item or its metafields). Skips cancelled and fulfilled orders and any order that already has a shipment with the same order_id. Use defaults for fields Shopify doesn't carry, such as package size and postage type.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        orders: {
+          description:
+            "Shopify order JSON: a single order, an array of orders, or an Admin API { order } / { orders } response",
+        },
+        path: {
+          type: "string",
+          description: "Path to a local file of Shopify orders (.json, .jsonl, or the admin .csv export)",
+        },
+        defaults: {
+          type: "object",
+          description:
+            'chitchats_create_shipment fields applied to every order, e.g. {"package_type": "parcel", "size_x": 20, "size_y": 15, "size_z": 5, "size_unit": "cm", "postage_type": "unknown"}',
+        },
+        skip_invalid: {
+          type: "boolean",
+          description: "Create the valid orders even if some orders fail validation",
+        },
+        concurrency: {
+          type: "number",
+          description: "Orders checked and created in parallel (1-10, default 4)",
+        },
+        batch_description: {
+          type: "string",
+          description: "Create a new batch with this description and add the created shipments",
+        },
+        dry_run: { type: "boolean", description: "Map and validate orders without creating anything" },
+      },
+    },
+    outputSchema: outputSchemas.shopifyImport,
+  },
+  {
+    name: "chitchats_export_shipments",
+    description:
+      "Export shipments matching the chitchats_list_shipments filters to a local CSV or JSON Lines file, paging through every result. One row per shipment with recipient, carrier, tracking and every fee and tax, or one row per line item with HS code and SKU.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        path: { type: "string", description: "Local file path to write" },
+        format: {
+          type: "string",
+          enum: ["csv", "jsonl"],
+          description: "Output format (default: csv)",
+        },
+        line_items: {
+          type: "boolean",
+          description: "One row per line item instead of one per shipment",
+        },
+        overwrite: { type: "boolean", description: "Replace the file if it exists" },
+        max_records: { type: "number", description: "Stop after this many shipments" },
+        batch_id: { type: "string", description: "Filter by batch ID" },
+        status: { type: "string", description: "Filter by status" },
+        from_date: { type: "string", description: "From date (YYYY-MM-DD)" },
+        to_date: { type: "string", description: "To date (YYYY-MM-DD)" },
+        search: { type: "string", description: "Search term" },
+      },
+      required: ["path"],
+    },
+    outputSchema: outputSchemas.export,
+  },
+  {
+    name: "chitchats_cost_report",
+    description:
+      "Aggregate shipping spend across a date range: postage, insurance, tariff, broker fees, taxes and totals, grouped by month, carrier, postage type, destination country or order store, with averages per shipment and per kg.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        from_date: { type: "string", description: "From date (YYYY-MM-DD)" },
+        to_date: { type: "string", description: "To date (YYYY-MM-DD)" },
+        group_by: {
+          type: "string",
+          enum: ["month", "carrier", "postage_type", "country", "order_store"],
+          description: "How to group costs (default: month)",
+        },
+        status: { type: "string", description: "Only include shipments with this status" },
+        batch_id: { type: "string", description: "Only include shipments in this batch" },
+        max_records: { type: "number", description: "Stop after this many shipments" },
+      },
+    },
+    outputSchema: outputSchemas.costReport,
+    annotations: { readOnlyHint: true },
   },
   {
     name: "chitchats_delete_shipment",
@@ -239,30 +555,79 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.shipmentAction,
     annotations: { destructiveHint: true },
   },
   {
     name: "chitchats_buy_postage",
     description:
-      "Purchase postage for a shipment. This is an async operation - check shipment status after.",
+      "Purchase postage for a shipment at its selected rate. Spends money: run with dry_run first to preview the rate and cost. Refused if it would exceed the configured spend caps. This is an async operation - check shipment status after.",
     inputSchema: {
       type: "object" as const,
       properties: {
         id: { type: "string", description: "Shipment ID" },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the selected rate and cost without purchasing",
+        },
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.shipmentAction,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  },
+  {
+    name: "chitchats_buy_best_rate",
+    description:
+      "Pick the best rate for a shipment by policy (cheapest or fastest, with tracking/signature/insurance/price/carrier filters), select it, and buy postage. Explains why the rate won versus the runners-up. Spends money: run with dry_run first. Subject to the same spend caps as chitchats_buy_postage.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Shipment ID" },
+        policy: {
+          type: "string",
+          enum: ["cheapest", "fastest"],
+          description: "How to rank eligible rates (default: cheapest)",
+        },
+        tracked_only: { type: "boolean", description: "Only consider rates with tracking" },
+        require_signature: {
+          type: "boolean",
+          description: "Only consider rates with signature confirmation",
+        },
+        require_insurance: { type: "boolean", description: "Only consider insured rates" },
+        max_price: { type: "number", description: "Maximum total cost" },
+        exclude_carriers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Carriers to skip (e.g., ups, usps)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Show which rate would win without setting or buying it",
+        },
+      },
+      required: ["id"],
+    },
+    outputSchema: outputSchemas.bestRate,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
   },
   {
     name: "chitchats_refund_shipment",
-    description: "Request a refund for a shipment with purchased postage.",
+    description:
+      "Request a refund for a shipment with purchased postage. The label becomes unusable: run with dry_run first to preview.",
     inputSchema: {
       type: "object" as const,
       properties: {
         id: { type: "string", description: "Shipment ID" },
+        dry_run: {
+          type: "boolean",
+          description: "Preview what would be refunded without requesting it",
+        },
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.shipmentAction,
+    annotations: { readOnlyHint: false, destructiveHint: true },
   },
   {
     name: "chitchats_refresh_rates",
@@ -279,6 +644,7 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.shipmentAction,
   },
   {
     name: "chitchats_count_shipments",
@@ -292,17 +658,24 @@ const tools = [
         },
       },
     },
+    outputSchema: outputSchemas.count,
     annotations: { readOnlyHint: true },
   },
   // Batch tools
   {
     name: "chitchats_list_batches",
-    description: "List batches with optional status filter and pagination.",
+    description:
+      "List batches with optional status filter and pagination, or fetch every page with all/max_records.",
     inputSchema: {
       type: "object" as const,
       properties: {
         limit: { type: "number", description: "Max records (up to 1000)" },
         page: { type: "number", description: "Page number" },
+        all: { type: "boolean", description: "Fetch every page until exhausted" },
+        max_records: {
+          type: "number",
+          description: "Fetch pages until this many records are collected (implies all)",
+        },
         status: {
           type: "string",
           enum: ["pending", "received"],
@@ -310,6 +683,7 @@ const tools = [
         },
       },
     },
+    outputSchema: outputSchemas.batchList,
     annotations: { readOnlyHint: true },
   },
   {
@@ -321,19 +695,93 @@ const tools = [
         description: { type: "string", description: "Batch name/description" },
       },
     },
+    outputSchema: outputSchemas.createdBatch,
   },
   {
     name: "chitchats_get_batch",
-    description: "Get details of a specific batch by ID.",
+    description:
+      "Get details of a specific batch by ID, with its member shipments, total cost and weight, and a readiness check that flags unpaid, errored or label-less shipments before drop-off.",
     inputSchema: {
       type: "object" as const,
       properties: {
         id: { type: "string", description: "Batch ID" },
+        include_shipments: {
+          type: "boolean",
+          description: "List member shipments with totals and a readiness check (default: true)",
+        },
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.batch,
     annotations: { readOnlyHint: true },
   },
+  {
+    name: "chitchats_auto_batch",
+    description:
+      "Collect unbatched shipments that match rules (status, date range, carrier, domestic vs international, order store), create a batch with a generated description and add them in chunks. Reports what was included and what was skipped and why. Use dry_run to see the plan first.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        status: { type: "string", description: "Shipment status to collect (default: ready)" },
+        from_date: {
+          type: "string",
+          description: "Only shipments created from this date (YYYY-MM-DD)",
+        },
+        to_date: {
+          type: "string",
+          description: "Only shipments created up to this date (YYYY-MM-DD)",
+        },
+        carriers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only shipments with one of these carriers (e.g., usps, ups, chitchats)",
+        },
+        destination: {
+          type: "string",
+          enum: ["domestic", "international"],
+          description: "Only Canadian (domestic) or non-Canadian (international) recipients",
+        },
+        order_stores: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only shipments from these order stores",
+        },
+        max_shipments: { type: "number", description: "Add at most this many shipments" },
+        description: {
+          type: "string",
+          description: "Batch description (default: generated from the date and rules)",
+        },
+        dry_run: { type: "boolean", description: "Show the plan without creating anything" },
+      },
+    },
+    outputSchema: outputSchemas.autoBatch,
+  },
+  {
+    name: "chitchats_batch_manifest",
+    description:
+      "Generate a drop-off manifest for a batch as CSV, markdown, or printable HTML/PDF. Lists every parcel with its order ID, recipient, carrier, tracking code, weight and line-item SKUs/quantities, plus a pick list of total quantities per SKU, so the packer can check each parcel against the batch.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        batch_id: { type: "string", description: "Batch ID" },
+        format: {
+          type: "string",
+          enum: ["csv", "markdown", "html", "pdf"],
+          description: "Manifest format (default: markdown)",
+        },
+        output_dir: {
+          type: "string",
+          description: "Directory to save into (default: CHITCHATS_LABEL_DIR or ./labels)",
+        },
+        pick_list: {
+          type: "boolean",
+          description: "Add a pick list of total quantities per SKU (default: true)",
+        },
+      },
+      required: ["batch_id"],
+    },
+    outputSchema: outputSchemas.batchManifest,
+  },
   {
     name: "chitchats_delete_batch",
     description: "Delete an empty batch. Batches with shipments cannot be deleted.",
@@ -344,6 +792,7 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.batchAction,
     annotations: { destructiveHint: true },
   },
   {
@@ -361,6 +810,7 @@ const tools = [
       },
       required: ["batch_id", "shipment_ids"],
     },
+    outputSchema: outputSchemas.batchAction,
   },
   {
     name: "chitchats_remove_from_batch",
@@ -376,6 +826,7 @@ const tools = [
       },
       required: ["shipment_ids"],
     },
+    outputSchema: outputSchemas.batchAction,
   },
   {
     name: "chitchats_count_batches",
@@ -390,21 +841,48 @@ const tools = [
         },
       },
     },
+    outputSchema: outputSchemas.count,
     annotations: { readOnlyHint: true },
   },
   // Returns
   {
     name: "chitchats_list_returns",
-    description: "List return shipments with optional filters.",
+    description:
+      "List return shipments with optional filters, or every return for an order via order_id. Set all/max_records to fetch every page.",
     inputSchema: {
       type: "object" as const,
       properties: {
         limit: { type: "number", description: "Max records" },
         page: { type: "number", description: "Page number" },
+        all: { type: "boolean", description: "Fetch every page until exhausted" },
+        max_records: {
+          type: "number",
+          description: "Fetch pages until this many records are collected (implies all)",
+        },
         status: { type: "string", description: "Filter by status" },
         reason: { type: "string", description: "Filter by reason" },
+        order_id: { type: "string", description: "Only returns for this order" },
       },
     },
+    outputSchema: outputSchemas.returnList,
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "chitchats_get_return",
+    description:
+      "Get a return by ID with its status, reason and original shipment (order, recipient, service, postage paid). Returns are read-only: the documented API has no way to accept, dispose of or reship a return, so do that in the Chit Chats dashboard.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Return ID" },
+        include_shipment: {
+          type: "boolean",
+          description: "Also load the original shipment (default: true)",
+        },
+      },
+      required: ["id"],
+    },
+    outputSchema: outputSchemas.returnDetail,
     annotations: { readOnlyHint: true },
   },
   // Tracking
@@ -419,114 +897,340 @@ const tools = [
       },
       required: ["id"],
     },
+    outputSchema: outputSchemas.tracking,
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "chitchats_tracking_watcher",
+    description:
+      "Control the background tracking watcher, which polls tracking for in-flight shipments and sends MCP log notifications (and an optional webhook POST) when a status changes or new events appear. Actions: status, start, stop, check (poll now and list changes).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        action: {
+          type: "string",
+          enum: ["status", "start", "stop", "check"],
+          description: "What to do (default: status)",
+        },
+        interval_minutes: { type: "number", description: "Polling interval when starting (default 15)" },
+        notify_statuses: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only notify for these tracking statuses, e.g. [\"exception\", \"delivered\"]",
+        },
+      },
+    },
+    outputSchema: outputSchemas.trackingWatcher,
+  },
+  // Webhooks
+  {
+    name: "chitchats_replay_webhooks",
+    description:
+      "Re-send webhook events whose delivery failed after all retries (kept in the dead-letter file). Use dry_run to list them first.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        event_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only replay these event IDs (default: all failed deliveries)",
+        },
+        dry_run: { type: "boolean", description: "List failed deliveries without sending" },
+      },
+    },
+    outputSchema: outputSchemas.webhookReplay,
+  },
+  // Local cache
+  {
+    name: "chitchats_sync_cache",
+    description:
+      "Sync shipments, batches and returns into the local cache. Shipments sync incrementally (recently created records are re-fetched) once a complete copy exists; set full to re-fetch everything.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        collections: {
+          type: "array",
+          items: { type: "string", enum: ["shipments", "batches", "returns"] },
+          description: "Collections to sync (default: all)",
+        },
+        full: { type: "boolean", description: "Re-fetch everything instead of syncing incrementally" },
+      },
+    },
+    outputSchema: outputSchemas.cacheSync,
+  },
+  {
+    name: "chitchats_query_cache",
+    description:
+      "Query cached shipments, batches or returns offline by any field, without calling the API. Reports how old the cache is. Use for analytics over many shipments; pass refresh or max_age_minutes to sync first.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        collection: {
+          type: "string",
+          enum: ["shipments", "batches", "returns"],
+          description: "What to query (default: shipments)",
+        },
+        where: {
+          type: "object",
+          description:
+            "Field conditions, e.g. {\"status\": \"delivered\", \"to_country_code\": \"US\", \"purchase_amount\": {\"gte\": 10}}. Plain values match exactly (case-insensitive); objects support gte, lte, contains and in.",
+          additionalProperties: true,
+        },
+        from_date: { type: "string", description: "Created on or after (YYYY-MM-DD)" },
+        to_date: { type: "string", description: "Created on or before (YYYY-MM-DD)" },
+        search: { type: "string", description: "Text found in any field" },
+        sort_by: { type: "string", description: "Field to sort by (default: created_at)" },
+        order: { type: "string", enum: ["asc", "desc"], description: "Sort order (default: desc)" },
+        fields: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only return these fields of each record",
+        },
+        limit: { type: "number", description: "Maximum records to return (default: 50, max 1000)" },
+        refresh: { type: "boolean", description: "Sync this collection before querying" },
+        max_age_minutes: { type: "number", description: "Sync first if the cache is older than this" },
+      },
+    },
+    outputSchema: outputSchemas.cacheQuery,
+  },
+  // Accounts
+  {
+    name: "chitchats_list_accounts",
+    description:
+      "List the Chit Chats accounts this server is configured for and which one is the default. Pass an account name as `account` to any other tool.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+    outputSchema: outputSchemas.accountList,
     annotations: { readOnlyHint: true },
   },
 ];
 
-// Register list tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+// Every tool except chitchats_list_accounts accepts an optional account name
+const accountProperty = {
+  type: "string",
+  description: "Chit Chats account to use (see chitchats_list_accounts). Defaults to the default account.",
+};
+
+const toolList = tools.map((tool) =>
+  tool.name === "chitchats_list_accounts"
+    ? tool
+    : {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: { ...tool.inputSchema.properties, account: accountProperty },
+        },
+      }
+);
+
+// Dispatch a tool call to its handler. Returns undefined for unknown tools.
+async function callTool(
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolResult | undefined> {
+  switch (name) {
+    // Shipment tools
+    case "chitchats_list_shipments":
+      return listShipments(ListShipmentsSchema.parse(args || {}));
+    case "chitchats_get_shipment":
+      return getShipment(GetShipmentSchema.parse(args));
+    case "chitchats_get_rates":
+      return getShipmentRates(GetShipmentSchema.parse(args));
+    case "chitchats_get_labels":
+      return getShipmentLabels(GetShipmentSchema.parse(args));
+    case "chitchats_download_labels":
+      return downloadLabels(DownloadLabelsSchema.parse(args));
+    case "chitchats_print_labels":
+      return printLabels(PrintLabelsSchema.parse(args));
+    case "chitchats_get_line_items":
+      return getShipmentLineItems(GetShipmentSchema.parse(args));
+    case "chitchats_validate_address":
+      return validateAddress(ValidateAddressSchema.parse(args));
+    case "chitchats_create_shipment":
+      return createShipment(CreateShipmentSchema.parse(args));
+    case "chitchats_import_shipments_csv":
+      return importShipmentsCsv(ImportShipmentsCsvSchema.parse(args));
+    case "chitchats_import_shopify_orders":
+      return importShopifyOrders(ImportShopifyOrdersSchema.parse(args));
+    case "chitchats_export_shipments":
+      return exportShipments(ExportShipmentsSchema.parse(args));
+    case "chitchats_cost_report":
+      return costReport(CostReportSchema.parse(args || {}));
+    case "chitchats_delete_shipment":
+      return deleteShipment(DeleteShipmentSchema.parse(args));
+    case "chitchats_buy_postage":
+      return guardedBuyPostage(BuyPostageSchema.parse(args));
+    case "chitchats_buy_best_rate":
+      return buyBestRate(BuyBestRateSchema.parse(args));
+    case "chitchats_refund_shipment":
+      return guardedRefundShipment(RefundShipmentSchema.parse(args));
+    case "chitchats_refresh_rates":
+      return refreshRates(RefreshRatesSchema.parse(args));
+    case "chitchats_count_shipments":
+      return countShipments(CountShipmentsSchema.parse(args || {}));
+
+    // Batch tools
+    case "chitchats_list_batches":
+      return listBatches(ListBatchesSchema.parse(args || {}));
+    case "chitchats_create_batch":
+      return createBatch(CreateBatchSchema.parse(args || {}));
+    case "chitchats_get_batch":
+      return getBatch(GetBatchSchema.parse(args));
+    case "chitchats_auto_batch":
+      return autoBatch(AutoBatchSchema.parse(args));
+    case "chitchats_batch_manifest":
+      return batchManifest(BatchManifestSchema.parse(args));
+    case "chitchats_delete_batch":
+      return deleteBatch(DeleteBatchSchema.parse(args));
+    case "chitchats_add_to_batch":
+      return addToBatch(AddToBatchSchema.parse(args));
+    case "chitchats_remove_from_batch":
+      return removeFromBatch(RemoveFromBatchSchema.parse(args));
+    case "chitchats_count_batches":
+      return countBatches(CountBatchesSchema.parse(args || {}));
+
+    // Returns
+    case "chitchats_list_returns":
+      return listReturns(ListReturnsSchema.parse(args || {}));
+    case "chitchats_get_return":
+      return getReturn(GetReturnSchema.parse(args));
 
-// Register call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    let result: string;
-
-    switch (name) {
-      // Shipment tools
-      case "chitchats_list_shipments":
-        result = await listShipments(ListShipmentsSchema.parse(args || {}));
-        break;
-      case "chitchats_get_shipment":
-        result = await getShipment(GetShipmentSchema.parse(args));
-        break;
-      case "chitchats_get_rates":
-        result = await getShipmentRates(GetShipmentSchema.parse(args));
-        break;
-      case "chitchats_get_labels":
-        result = await getShipmentLabels(GetShipmentSchema.parse(args));
-        break;
-      case "chitchats_get_line_items":
-        result = await getShipmentLineItems(GetShipmentSchema.parse(args));
-        break;
-      case "chitchats_create_shipment":
-        result = await createShipment(CreateShipmentSchema.parse(args));
-        break;
-      case "chitchats_delete_shipment":
-        result = await deleteShipment(DeleteShipmentSchema.parse(args));
-        break;
-      case "chitchats_buy_postage":
-        result = await buyPostage(BuyPostageSchema.parse(args));
-        break;
-      case "chitchats_refund_shipment":
-        result = await refundShipment(RefundShipmentSchema.parse(args));
-        break;
-      case "chitchats_refresh_rates":
-        result = await refreshRates(RefreshRatesSchema.parse(args));
-        break;
-      case "chitchats_count_shipments":
-        result = await countShipments(CountShipmentsSchema.parse(args || {}));
-        break;
-
-      // Batch tools
-      case "chitchats_list_batches":
-        result = await listBatches(ListBatchesSchema.parse(args || {}));
-        break;
-      case "chitchats_create_batch":
-        result = await createBatch(CreateBatchSchema.parse(args || {}));
-        break;
-      case "chitchats_get_batch":
-        result = await getBatch(GetBatchSchema.parse(args));
-        break;
-      case "chitchats_delete_batch":
-        result = await deleteBatch(DeleteBatchSchema.parse(args));
-        break;
-      case "chitchats_add_to_batch":
-        result = await addToBatch(AddToBatchSchema.parse(args));
-        break;
-      case "chitchats_remove_from_batch":
-        result = await removeFromBatch(RemoveFromBatchSchema.parse(args));
-        break;
-      case "chitchats_count_batches":
-        result = await countBatches(CountBatchesSchema.parse(args || {}));
-        break;
-
-      // Returns
-      case "chitchats_list_returns":
-        result = await listReturns(ListReturnsSchema.parse(args || {}));
-        break;
-
-      // Tracking
-      case "chitchats_track_shipment":
-        result = await trackShipment(TrackShipmentSchema.parse(args));
-        break;
-
-      default:
+    // Tracking
+    case "chitchats_track_shipment":
+      return trackShipment(TrackShipmentSchema.parse(args));
+    case "chitchats_tracking_watcher":
+      return trackingWatcher(TrackingWatcherSchema.parse(args));
+
+    // Webhooks
+    case "chitchats_replay_webhooks":
+      return replayWebhooks(ReplayWebhooksSchema.parse(args));
+
+    // Local cache
+    case "chitchats_sync_cache":
+      return syncCache(SyncCacheSchema.parse(args));
+    case "chitchats_query_cache":
+      return queryCache(QueryCacheSchema.parse(args));
+
+    // Accounts
+    case "chitchats_list_accounts":
+      return listAccounts();
+
+    default:
+      return undefined;
+  }
+}
+
+// Create a server instance with tools, resources and prompts registered. Stdio
+// uses a single instance; the HTTP transport creates one per session.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "chitchats-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  // Register list tools handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: toolList };
+  });
+
+  // Register call tool handler
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: rawArgs } = request.params;
+    const { account: accountName, ...args } = rawArgs || {};
+
+    const account = findAccount(typeof accountName === "string" ? accountName : undefined);
+    if (typeof account === "string") {
+      return { content: [{ type: "text", text: account }], isError: true };
+    }
+
+    watchAccount(server, account.name);
+
+    try {
+      const result = await withAccount(account.name, () => callTool(name, args));
+
+      if (!result) {
         return {
           content: [{ type: "text", text: `Unknown tool: ${name}` }],
           isError: true,
         };
+      }
+
+      emitToolEvent(name, args, result, account.name);
+
+      // Label results with their account once there's more than one to mix up
+      const text =
+        getAccounts().length > 1 ? `**Account:** ${account.name}\n\n${result.text}` : result.text;
+
+      return {
+        content: [{ type: "text", text }],
+        ...(result.structured && {
+          structuredContent: { ...result.structured, account: account.name },
+        }),
+        ...(result.isError && { isError: true }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        content: [{ type: "text", text: `Error: ${message}` }],
+        isError: true,
+      };
     }
+  });
 
-    return {
-      content: [{ type: "text", text: result }],
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return {
-      content: [{ type: "text", text: `Error: ${message}` }],
-      isError: true,
-    };
-  }
-});
+  // Register resources (shipments, batches, returns) and workflow prompts, and
+  // send tracking watcher notifications to this client
+  registerResources(server);
+  registerPrompts(server);
+  attachTrackingWatcher(server);
+
+  return server;
+}
 
-// Start server
+// Start server. Stdio by default; `--http` (or CHITCHATS_TRANSPORT=http)
+// serves Streamable HTTP and legacy SSE instead.
 async function main() {
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean" },
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
+
+  const mode = values.http ? "http" : values.transport || process.env.CHITCHATS_TRANSPORT || "stdio";
+
+  startWatcherFromEnv();
+
+  if (mode === "http") {
+    const port = Number(values.port || process.env.CHITCHATS_HTTP_PORT || 3000);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid HTTP port: ${values.port || process.env.CHITCHATS_HTTP_PORT}`);
+    }
+    await startHttpServer(createServer, {
+      host: values.host || process.env.CHITCHATS_HTTP_HOST || "127.0.0.1",
+      port,
+    });
+    return;
+  }
+  if (mode !== "stdio") {
+    throw new Error(`Unknown transport: ${mode} (expected stdio or http)`);
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Chit Chats MCP server running on stdio");
 }
 
@@ -0,0 +1,750 @@
+// JSON Schemas for each tool's structuredContent, derived from the
+// interfaces in src/tools/*.ts. Field types are kept permissive (nullable,
+// decimals as string or number) because the API is not strict about them.
+
+const text = { type: ["string", "null"] };
+const flag = { type: ["boolean", "null"] };
+const decimal = {
+  type: ["string", "number", "null"],
+  description: "Decimal value (the API may send it as a string)",
+};
+
+export const lineItemSchema = {
+  type: "object",
+  properties: {
+    quantity: decimal,
+    description: text,
+    value_amount: decimal,
+    currency_code: text,
+    hs_tariff_code: text,
+    sku_code: text,
+    origin_country: text,
+    weight: decimal,
+    weight_unit: text,
+    manufacturer_id: text,
+    manufacturer_contact: text,
+    manufacturer_street: text,
+    manufacturer_street_2: text,
+    manufacturer_city: text,
+    manufacturer_postal_code: text,
+    manufacturer_province_code: text,
+    manufacturer_country_code: text,
+    manufacturer_phone: text,
+    manufacturer_email: text,
+  },
+};
+
+export const rateSchema = {
+  type: "object",
+  properties: {
+    postage_type: text,
+    postage_carrier_type: text,
+    postage_description: text,
+    delivery_time_description: text,
+    tracking_type_description: text,
+    signature_confirmation_description: text,
+    delivery_duties_paid_description: text,
+    is_insured: flag,
+    purchase_amount: decimal,
+    payment_amount: decimal,
+    postage_fee: decimal,
+    insurance_fee: decimal,
+    delivery_fee: decimal,
+    tariff_fee: decimal,
+    broker_conveyance_fee: decimal,
+    shipment_items_fee: decimal,
+    fda_prior_notification_fee: decimal,
+    federal_tax: decimal,
+    provincial_tax: decimal,
+  },
+};
+
+export const shipmentSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    status: { type: "string" },
+    batch_id: decimal,
+    order_id: text,
+    order_store: text,
+
+    to_name: text,
+    to_address_1: text,
+    to_address_2: text,
+    to_city: text,
+    to_province_code: text,
+    to_postal_code: text,
+    to_country_code: text,
+    to_phone: text,
+    to_email: text,
+
+    return_name: text,
+    return_address_1: text,
+    return_address_2: text,
+    return_city: text,
+    return_province_code: text,
+    return_postal_code: text,
+    return_country_code: text,
+    return_phone: text,
+    is_return_dispose: flag,
+
+    package_contents: text,
+    description: text,
+    value: decimal,
+    value_currency: text,
+    package_type: text,
+    size_unit: text,
+    size_x: decimal,
+    size_y: decimal,
+    size_z: decimal,
+    weight_unit: text,
+    weight: decimal,
+
+    is_insured: flag,
+    is_insurance_requested: flag,
+    is_media_mail_requested: flag,
+    is_signature_requested: flag,
+    is_delivery_duties_paid_requested: flag,
+
+    postage_type: text,
+    carrier: text,
+    carrier_tracking_code: text,
+    tracking_url: text,
+    ship_date: text,
+
+    purchase_amount: decimal,
+    postage_fee: decimal,
+    insurance_fee: decimal,
+    delivery_fee: decimal,
+    tariff_fee: decimal,
+    broker_conveyance_fee: decimal,
+    shipment_items_fee: decimal,
+    fda_prior_notification_fee: decimal,
+    federal_tax: decimal,
+    federal_tax_label: text,
+    provincial_tax: decimal,
+    provincial_tax_label: text,
+
+    postage_label_png_url: text,
+    postage_label_pdf_url: text,
+    postage_label_zpl_url: text,
+
+    line_items: { type: ["array", "null"], items: lineItemSchema },
+    rates: { type: ["array", "null"], items: rateSchema },
+
+    created_at: text,
+  },
+  required: ["id", "status"],
+};
+
+export const batchSchema = {
+  type: "object",
+  properties: {
+    id: { type: ["string", "number"] },
+    status: { type: "string" },
+    description: text,
+    shipment_count: decimal,
+    created_at: text,
+  },
+  required: ["id", "status"],
+};
+
+export const returnSchema = {
+  type: "object",
+  properties: {
+    id: { type: ["string", "number"] },
+    status: { type: "string" },
+    reason: text,
+    shipment_id: text,
+    created_at: text,
+  },
+  required: ["id", "status"],
+};
+
+export const trackingSchema = {
+  type: "object",
+  properties: {
+    shipment_id: text,
+    status: text,
+    carrier: text,
+    tracking_number: text,
+    estimated_delivery: text,
+    events: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        properties: {
+          date: text,
+          description: text,
+          location: text,
+        },
+      },
+    },
+  },
+};
+
+const dollars = { type: "number" };
+const costSummarySchema = {
+  type: "object",
+  properties: {
+    shipments: { type: "number" },
+    postage_fee: dollars,
+    insurance_fee: dollars,
+    tariff_fee: dollars,
+    broker_conveyance_fee: dollars,
+    other_fees: { type: "number", description: "Delivery, items and FDA fees" },
+    taxes: { type: "number", description: "Federal plus provincial tax" },
+    total: { type: "number", description: "Sum of purchase_amount" },
+    weight_kg: { type: "number" },
+    avg_per_shipment: { type: ["number", "null"] },
+    avg_per_kg: { type: ["number", "null"] },
+  },
+};
+
+// A shipment that could not be processed, and why
+const shipmentProblemSchema = {
+  type: "object",
+  properties: { shipment_id: { type: "string" }, reason: { type: "string" } },
+};
+
+// A normalization applied to an address field
+const addressChangeSchema = {
+  type: "object",
+  properties: {
+    field: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+  },
+};
+
+const addressIssueSchema = {
+  type: "object",
+  properties: {
+    field: { type: "string" },
+    severity: { type: "string", enum: ["error", "warning"] },
+    message: { type: "string" },
+  },
+};
+
+// A batch member that isn't ready for drop-off
+const batchIssueSchema = {
+  type: "object",
+  properties: {
+    shipment_id: { type: "string" },
+    order_id: { type: "string" },
+    problem: { type: "string", enum: ["unpaid", "errored", "no_label"] },
+    detail: { type: "string" },
+  },
+};
+
+// Shared by the all-pages list tools
+const pagingProperties = {
+  count: { type: "number", description: "Number of records returned" },
+  pages: { type: "number", description: "Pages fetched (all-pages mode only)" },
+  warning: { type: "string", description: "Why paging stopped early, if it did" },
+};
+
+const cacheSyncSchema = {
+  type: "object",
+  properties: {
+    collection: { type: "string" },
+    mode: { type: "string", enum: ["full", "incremental"] },
+    from_date: { type: "string" },
+    fetched: { type: "number" },
+    added: { type: "number" },
+    updated: { type: "number" },
+    total: { type: "number" },
+    pages: { type: "number" },
+    synced_at: { type: "string" },
+    warning: { type: "string" },
+    error: { type: "string" },
+  },
+  required: ["collection", "mode", "fetched", "total"],
+};
+
+const webhookDeliverySchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    type: { type: "string" },
+    url: { type: "string" },
+    created_at: { type: "string" },
+    last_error: { type: "string" },
+    delivered: { type: "boolean" },
+    error: { type: "string" },
+  },
+  required: ["id", "type", "url"],
+};
+
+// Every tool result is labeled with the account it came from
+function objectOutput(
+  properties: Record<string, unknown>,
+  required: string[]
+): { type: "object"; properties: Record<string, unknown>; required: string[] } {
+  return {
+    type: "object",
+    properties: {
+      ...properties,
+      account: { type: "string", description: "Chit Chats account the data came from" },
+    },
+    required,
+  };
+}
+
+export const outputSchemas = {
+  accountList: objectOutput(
+    {
+      accounts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            client_id: { type: "string" },
+            base_url: { type: "string" },
+            is_default: { type: "boolean" },
+          },
+          required: ["name", "is_default"],
+        },
+      },
+      default_account: { type: "string" },
+    },
+    ["accounts", "default_account"]
+  ),
+  shipmentList: objectOutput(
+    { shipments: { type: "array", items: shipmentSchema }, ...pagingProperties },
+    ["shipments", "count"]
+  ),
+  shipment: objectOutput({ shipment: shipmentSchema }, ["shipment"]),
+  // The API may acknowledge a create without echoing the record
+  createdShipment: objectOutput(
+    {
+      shipment: shipmentSchema,
+      address_corrections: { type: "array", items: addressChangeSchema },
+      address_warnings: { type: "array", items: addressIssueSchema },
+    },
+    []
+  ),
+  addressValidation: objectOutput(
+    {
+      valid: { type: "boolean", description: "False when any issue is an error" },
+      address: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          address_1: { type: "string" },
+          address_2: { type: "string" },
+          city: { type: "string" },
+          province_code: { type: "string" },
+          postal_code: { type: "string" },
+          country_code: { type: "string" },
+          phone: { type: "string" },
+          email: { type: "string" },
+        },
+      },
+      changes: { type: "array", items: addressChangeSchema },
+      issues: { type: "array", items: addressIssueSchema },
+    },
+    ["valid", "address", "changes", "issues"]
+  ),
+  rates: objectOutput(
+    { shipment_id: { type: "string" }, rates: { type: "array", items: rateSchema } },
+    ["shipment_id", "rates"]
+  ),
+  labels: objectOutput(
+    {
+      shipment_id: { type: "string" },
+      png_url: text,
+      pdf_url: text,
+      zpl_url: text,
+    },
+    ["shipment_id"]
+  ),
+  lineItems: objectOutput(
+    {
+      shipment_id: { type: "string" },
+      line_items: { type: "array", items: lineItemSchema },
+    },
+    ["shipment_id", "line_items"]
+  ),
+  // Mutations that may or may not return the updated shipment
+  shipmentAction: objectOutput(
+    {
+      id: { type: "string" },
+      action: { type: "string" },
+      shipment: shipmentSchema,
+      // Dry-run previews of money-moving tools
+      preview: {
+        type: "object",
+        properties: {
+          rate: rateSchema,
+          amount: { type: "number" },
+          allowed: { type: "boolean" },
+          spent_today: { type: "number" },
+          per_call_cap: { type: "number" },
+          per_day_cap: { type: "number" },
+        },
+      },
+    },
+    ["id", "action"]
+  ),
+  bestRate: objectOutput(
+    {
+      id: { type: "string" },
+      action: { type: "string" },
+      selected: rateSchema,
+      reason: { type: "string" },
+      runners_up: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { rate: rateSchema, reason: { type: "string" } },
+        },
+      },
+      excluded: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { postage_type: text, reason: { type: "string" } },
+        },
+      },
+      allowed: { type: "boolean", description: "Dry run: whether the spend caps allow the purchase" },
+      refusal: { type: "string", description: "Dry run: why the spend caps would refuse it" },
+      shipment: shipmentSchema,
+    },
+    ["id", "action", "selected", "reason"]
+  ),
+  csvImport: objectOutput(
+    {
+      path: { type: "string" },
+      total_rows: { type: "number" },
+      created: { type: "number" },
+      unconfirmed: {
+        type: "number",
+        description: "Shipments the API accepted without returning an ID",
+      },
+      failed: { type: "number" },
+      invalid: { type: "number" },
+      batch_id: { type: "string" },
+      rows: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            row: { type: "number", description: "Spreadsheet row (header is row 1)" },
+            status: {
+              type: "string",
+              enum: ["created", "unconfirmed", "failed", "invalid", "skipped", "valid"],
+            },
+            order_id: { type: "string" },
+            name: { type: "string" },
+            shipment_id: { type: "string" },
+            error: { type: "string" },
+          },
+          required: ["row", "status"],
+        },
+      },
+    },
+    ["path", "total_rows", "created", "failed", "invalid", "rows"]
+  ),
+  shopifyImport: objectOutput(
+    {
+      source: { type: "string", description: "File path, or \"inline\" for orders passed directly" },
+      total_orders: { type: "number" },
+      skipped: { type: "number" },
+      invalid: { type: "number" },
+      created: { type: "number" },
+      unconfirmed: {
+        type: "number",
+        description: "Shipments the API accepted without returning an ID",
+      },
+      failed: { type: "number" },
+      batch_id: { type: "string" },
+      orders: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            order_id: { type: "string", description: "Shopify order name, e.g. #1001" },
+            status: {
+              type: "string",
+              enum: ["created", "unconfirmed", "failed", "invalid", "skipped", "valid"],
+            },
+            name: { type: "string" },
+            shipment_id: { type: "string" },
+            existing_shipment_ids: { type: "array", items: { type: "string" } },
+            error: { type: "string" },
+          },
+          required: ["order_id", "status"],
+        },
+      },
+    },
+    ["source", "total_orders", "skipped", "invalid", "created", "failed", "orders"]
+  ),
+  export: objectOutput(
+    {
+      path: { type: "string" },
+      format: { type: "string", enum: ["csv", "jsonl"] },
+      shipments: { type: "number" },
+      rows: { type: "number" },
+      pages: { type: "number" },
+      warning: { type: "string" },
+    },
+    ["path", "format", "shipments", "rows"]
+  ),
+  costReport: objectOutput(
+    {
+      group_by: { type: "string" },
+      from_date: { type: "string" },
+      to_date: { type: "string" },
+      shipments: { type: "number" },
+      unpaid_excluded: { type: "number" },
+      totals: costSummarySchema,
+      groups: {
+        type: "array",
+        items: {
+          ...costSummarySchema,
+          properties: { key: { type: "string" }, ...costSummarySchema.properties },
+        },
+      },
+      warning: { type: "string" },
+    },
+    ["group_by", "shipments", "totals", "groups"]
+  ),
+  autoBatch: objectOutput(
+    {
+      batch: batchSchema,
+      dry_run: { type: "boolean" },
+      rules: { type: "string" },
+      description: { type: "string" },
+      included: {
+        type: "array",
+        items: { type: "string" },
+        description: "Shipment IDs the batch would hold (dry runs and empty plans)",
+      },
+      added: { type: "array", items: { type: "string" } },
+      failed: { type: "array", items: shipmentProblemSchema },
+      skipped: { type: "array", items: shipmentProblemSchema },
+      warning: { type: "string" },
+    },
+    ["rules", "skipped"]
+  ),
+  batchManifest: objectOutput(
+    {
+      batch_id: { type: "string" },
+      format: { type: "string", enum: ["csv", "markdown", "html", "pdf"] },
+      path: { type: "string" },
+      pick_list_path: { type: "string" },
+      shipments: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            shipment_id: { type: "string" },
+            order_id: { type: "string" },
+            recipient: { type: "string" },
+            destination: { type: "string" },
+            carrier: { type: "string" },
+            postage_type: { type: "string" },
+            tracking_code: { type: "string" },
+            weight: { type: "number" },
+            weight_unit: { type: "string" },
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  sku: { type: "string" },
+                  description: { type: "string" },
+                  quantity: { type: "number" },
+                },
+              },
+            },
+          },
+        },
+      },
+      pick_list: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            sku: { type: "string" },
+            description: { type: "string" },
+            quantity: { type: "number" },
+            shipments: { type: "number" },
+          },
+        },
+      },
+      totals: {
+        type: "object",
+        properties: {
+          shipments: { type: "number" },
+          items: { type: "number" },
+          weight_kg: { type: "number" },
+        },
+      },
+      issues: { type: "array", items: batchIssueSchema },
+      warning: { type: "string" },
+    },
+    ["batch_id", "format", "path", "shipments", "pick_list", "totals", "issues"]
+  ),
+  labelDownload: objectOutput(
+    {
+      format: { type: "string", enum: ["pdf", "png", "zpl"] },
+      output_dir: { type: "string" },
+      files: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { shipment_id: { type: "string" }, path: { type: "string" } },
+        },
+      },
+      merged_path: { type: "string" },
+      missing: { type: "array", items: shipmentProblemSchema },
+      failed: { type: "array", items: shipmentProblemSchema },
+    },
+    ["format", "output_dir", "files", "missing", "failed"]
+  ),
+  labelPrint: objectOutput(
+    {
+      printer: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          host: { type: "string" },
+          port: { type: "number" },
+        },
+      },
+      copies: { type: "number" },
+      sent: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            attempts: { type: "number" },
+            unconfirmed: {
+              type: "string",
+              description: "Connection error after the label was sent; it was not resent",
+            },
+          },
+        },
+      },
+      missing: { type: "array", items: shipmentProblemSchema },
+      failed: { type: "array", items: shipmentProblemSchema },
+    },
+    ["printer", "copies", "sent", "missing", "failed"]
+  ),
+  count: objectOutput(
+    { count: { type: "number" }, status: text },
+    ["count"]
+  ),
+  batchList: objectOutput(
+    { batches: { type: "array", items: batchSchema }, ...pagingProperties },
+    ["batches", "count"]
+  ),
+  batch: objectOutput(
+    {
+      batch: batchSchema,
+      shipments: { type: "array", items: shipmentSchema },
+      totals: {
+        type: "object",
+        properties: {
+          shipments: { type: "number" },
+          cost: dollars,
+          weight_kg: { type: "number" },
+        },
+      },
+      readiness: {
+        type: "object",
+        properties: {
+          ready: { type: "boolean" },
+          issues: { type: "array", items: batchIssueSchema },
+        },
+      },
+      warnings: { type: "array", items: { type: "string" } },
+    },
+    ["batch"]
+  ),
+  createdBatch: objectOutput({ batch: batchSchema }, []),
+  batchAction: objectOutput(
+    {
+      action: { type: "string" },
+      batch_id: text,
+      shipment_ids: { type: "array", items: { type: "string" } },
+    },
+    ["action"]
+  ),
+  returnList: objectOutput(
+    { returns: { type: "array", items: returnSchema }, ...pagingProperties },
+    ["returns", "count"]
+  ),
+  returnDetail: objectOutput({ return: returnSchema, shipment: shipmentSchema }, ["return"]),
+  tracking: objectOutput(
+    { shipment_id: { type: "string" }, tracking: trackingSchema },
+    ["shipment_id", "tracking"]
+  ),
+  trackingWatcher: objectOutput(
+    {
+      watcher: {
+        type: "object",
+        properties: {
+          running: { type: "boolean" },
+          interval_minutes: { type: "number" },
+          shipment_statuses: { type: "array", items: { type: "string" } },
+          notify_statuses: { type: "array", items: { type: "string" } },
+          webhook: { type: "boolean" },
+          watching: { type: "number" },
+          last_run_at: { type: "string" },
+          last_error: { type: "string" },
+          changes_detected: { type: "number" },
+        },
+        required: ["running", "watching"],
+      },
+      changes: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            account: { type: "string" },
+            shipment_id: { type: "string" },
+            previous_status: { type: "string" },
+            status: { type: "string" },
+            new_events: trackingSchema.properties.events,
+            detected_at: { type: "string" },
+          },
+          required: ["shipment_id", "status"],
+        },
+      },
+    },
+    ["watcher"]
+  ),
+  webhookReplay: objectOutput(
+    {
+      pending: { type: "array", items: webhookDeliverySchema },
+      replayed: { type: "array", items: webhookDeliverySchema },
+      remaining: { type: "number", description: "Deliveries left in the dead-letter file" },
+      dead_letter_file: { type: "string" },
+    },
+    ["replayed", "remaining"]
+  ),
+  cacheSync: objectOutput(
+    { collections: { type: "array", items: cacheSyncSchema } },
+    ["collections"]
+  ),
+  cacheQuery: objectOutput(
+    {
+      collection: { type: "string" },
+      records: { type: "array", items: { type: "object" } },
+      count: { type: "number", description: "Records returned" },
+      matched: { type: "number", description: "Records matching the query" },
+      cached: { type: "number", description: "Records in the cache" },
+      synced_at: { type: "string" },
+      age_minutes: { type: "number" },
+      stale: { type: "boolean" },
+      complete: { type: "boolean", description: "False if the last full sync stopped early" },
+      sync: cacheSyncSchema,
+    },
+    ["collection", "records", "count", "matched", "synced_at", "stale"]
+  ),
+};
@@ -0,0 +1,62 @@
+import { client } from "./client.js";
+
+export interface ListOptions {
+  limit?: number;
+  page?: number;
+  all?: boolean;
+  max_records?: number;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  error?: string;
+  // Appended to the "Found N ..." header, e.g. " across 3 page(s)"
+  summary: string;
+  // Pages fetched in all-pages mode
+  pages?: number;
+  // Set when all-pages mode stopped before the end of the data
+  warning?: string;
+}
+
+// Fetch a list endpoint either as a single page (limit/page) or, when `all`
+// or `max_records` is set, by walking every page through the client.
+export async function fetchList<T>(
+  path: string,
+  query: URLSearchParams,
+  options: ListOptions
+): Promise<ListResult<T>> {
+  if (!options.all && options.max_records === undefined) {
+    if (options.limit) query.set("limit", options.limit.toString());
+    if (options.page) query.set("page", options.page.toString());
+
+    const queryString = query.toString();
+    const response = await client.get<T[]>(
+      `${path}${queryString ? `?${queryString}` : ""}`
+    );
+
+    return { items: response.data || [], error: response.error, summary: "" };
+  }
+
+  const result = await client.getAllPages<T>(path, query, {
+    maxRecords: options.max_records,
+    pageSize: options.limit,
+  });
+
+  let warning: string | undefined;
+  if (result.stoppedBy === "error") {
+    warning = `Stopped after ${result.pages} page(s) because of an error: ${result.error}. Results are partial.`;
+  } else if (result.stoppedBy === "max_records" && result.hasMore) {
+    warning = `Stopped at max_records (${options.max_records}); more records exist.`;
+  } else if (result.stoppedBy === "page_ceiling") {
+    warning = `Stopped at the page ceiling (${result.pages} pages, set via CHITCHATS_MAX_PAGES); more records exist.`;
+  }
+
+  return {
+    items: result.data,
+    // Only surface the error on its own when nothing was fetched
+    error: result.data.length === 0 ? result.error : undefined,
+    summary: ` across ${result.pages} page(s)`,
+    pages: result.pages,
+    warning,
+  };
+}
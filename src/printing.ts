@@ -0,0 +1,152 @@
+import { createConnection } from "node:net";
+import { retryCount } from "./client.js";
+
+export interface PrinterProfile {
+  name: string;
+  host: string;
+  port: number;
+  // Copies printed per label when the call doesn't say
+  copies: number;
+}
+
+const CONNECT_TIMEOUT_MS = Number(process.env.CHITCHATS_PRINTER_TIMEOUT_MS) || 10000;
+const PRINT_RETRIES = retryCount("CHITCHATS_PRINTER_RETRIES", 2);
+const RETRY_DELAY_MS = 1000;
+
+// Profiles come from CHITCHATS_PRINTERS, a JSON object of
+// name -> { host, port?, copies? }, or a single CHITCHATS_PRINTER_HOST.
+function loadProfiles(): Map<string, PrinterProfile> {
+  const profiles = new Map<string, PrinterProfile>();
+
+  if (process.env.CHITCHATS_PRINTERS) {
+    try {
+      const config = JSON.parse(process.env.CHITCHATS_PRINTERS) as Record<
+        string,
+        { host?: string; port?: number; copies?: number }
+      >;
+      for (const [name, p] of Object.entries(config)) {
+        if (!p.host) {
+          console.error(`Printer "${name}" in CHITCHATS_PRINTERS has no host; skipping`);
+          continue;
+        }
+        profiles.set(name, { name, host: p.host, port: p.port || 9100, copies: p.copies || 1 });
+      }
+    } catch {
+      console.error("CHITCHATS_PRINTERS is not valid JSON; ignoring it");
+    }
+  }
+
+  if (process.env.CHITCHATS_PRINTER_HOST && !profiles.has("default")) {
+    profiles.set("default", {
+      name: "default",
+      host: process.env.CHITCHATS_PRINTER_HOST,
+      port: Number(process.env.CHITCHATS_PRINTER_PORT) || 9100,
+      copies: 1,
+    });
+  }
+
+  return profiles;
+}
+
+const profiles = loadProfiles();
+
+export function listPrinters(): PrinterProfile[] {
+  return [...profiles.values()];
+}
+
+// Pick a profile by name, falling back to CHITCHATS_DEFAULT_PRINTER, then the
+// only configured printer.
+export function findPrinter(name?: string): PrinterProfile | string {
+  const wanted = name || process.env.CHITCHATS_DEFAULT_PRINTER;
+  if (wanted) {
+    return (
+      profiles.get(wanted) ||
+      `Unknown printer "${wanted}". Configured printers: ${[...profiles.keys()].join(", ") || "none"}`
+    );
+  }
+  if (profiles.size === 1) return [...profiles.values()][0];
+  if (profiles.size === 0) {
+    return "No printers configured. Set CHITCHATS_PRINTERS or CHITCHATS_PRINTER_HOST.";
+  }
+  return `Several printers are configured; choose one of: ${[...profiles.keys()].join(", ")}`;
+}
+
+// Stream raw bytes to a printer's raw port (9100 on Zebra printers).
+// `written` says whether the failure came after the data went out.
+function sendRaw(
+  printer: PrinterProfile,
+  data: Uint8Array
+): Promise<{ error?: string; written: boolean }> {
+  return new Promise((resolve) => {
+    let written = false;
+    const socket = createConnection({ host: printer.host, port: printer.port });
+    socket.setTimeout(CONNECT_TIMEOUT_MS);
+    socket.on("timeout", () => {
+      socket.destroy(new Error(`Printer did not respond within ${CONNECT_TIMEOUT_MS}ms`));
+    });
+    socket.on("error", (err) => resolve({ error: err.message, written }));
+    socket.on("connect", () => {
+      written = true;
+      socket.end(data);
+    });
+    socket.on("close", (hadError) => {
+      if (!hadError) resolve({ written });
+    });
+  });
+}
+
+// One queue per printer so labels from concurrent calls never interleave
+const queues = new Map<string, Promise<unknown>>();
+
+export interface PrintJob {
+  label: string;
+  data: Uint8Array;
+}
+
+export interface PrintOutcome {
+  label: string;
+  sent: boolean;
+  attempts: number;
+  error?: string;
+  // Set when the data went out but the connection then failed, so the
+  // printer may or may not have printed it
+  unconfirmed?: string;
+}
+
+async function printWithRetry(printer: PrinterProfile, job: PrintJob): Promise<PrintOutcome> {
+  let lastError = "";
+  for (let attempt = 1; attempt <= PRINT_RETRIES + 1; attempt++) {
+    const result = await sendRaw(printer, job.data);
+    if (!result.error) {
+      return { label: job.label, sent: true, attempts: attempt };
+    }
+    // Printers print whatever bytes arrive, so resending could print the
+    // label twice; only failures before the connection opened are retried
+    if (result.written) {
+      return { label: job.label, sent: true, attempts: attempt, unconfirmed: result.error };
+    }
+    lastError = result.error;
+    if (attempt <= PRINT_RETRIES) {
+      await new Promise((r) => setTimeout(r, RETRY_DELAY_MS * attempt));
+    }
+  }
+  return { label: job.label, sent: false, attempts: PRINT_RETRIES + 1, error: lastError };
+}
+
+// Queue jobs on the printer and print them in order, retrying each one
+export function enqueuePrintJobs(
+  printer: PrinterProfile,
+  jobs: PrintJob[]
+): Promise<PrintOutcome[]> {
+  const previous = queues.get(printer.name) || Promise.resolve();
+  const run = previous.then(async () => {
+    const outcomes: PrintOutcome[] = [];
+    for (const job of jobs) {
+      outcomes.push(await printWithRetry(printer, job));
+    }
+    return outcomes;
+  });
+  // Keep the queue alive even if this run throws
+  queues.set(printer.name, run.catch(() => undefined));
+  return run;
+}
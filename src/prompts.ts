@@ -0,0 +1,167 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgoIso(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+const prompts: PromptTemplate[] = [
+  {
+    name: "end_of_day_close_out",
+    description:
+      "Create today's shipments, buy the cheapest tracked rates, batch them and save the label PDFs",
+    arguments: [
+      {
+        name: "orders_csv",
+        description: "Path to a CSV of today's orders (omit if shipments already exist)",
+      },
+      { name: "max_price", description: "Highest price to pay per shipment" },
+      { name: "date", description: "Day to close out (YYYY-MM-DD, default today)" },
+    ],
+    render: (args) => {
+      const date = args.date || todayIso();
+      const steps = [
+        `Close out shipping for ${date}.`,
+        "",
+        args.orders_csv
+          ? `1. Validate ${args.orders_csv} with chitchats_import_shipments_csv (dry_run: true). Show me any invalid rows and stop if there are any; otherwise run it again without dry_run.`
+          : `1. Find today's unpaid shipments with chitchats_list_shipments (from_date: ${date}, to_date: ${date}, all: true) and keep the ones without postage.`,
+        `2. For each shipment, call chitchats_buy_best_rate with policy "cheapest" and tracked_only: true${args.max_price ? ` and max_price: ${args.max_price}` : ""}, using dry_run: true first. Summarize the chosen rates and the total cost in a table and wait for my confirmation before buying.`,
+        "3. After I confirm, buy each rate with chitchats_buy_best_rate. Report any refusals from the spend caps.",
+        `4. Create a batch with chitchats_create_batch (description: "End of day ${date}") and add the purchased shipments with chitchats_add_to_batch.`,
+        "5. Save the labels for the batch with chitchats_download_labels (batch_id, format: pdf) and give me the path of the merged print-ready PDF.",
+        "6. Finish with a summary: shipments created, postage bought, total spent, batch ID, and anything that failed.",
+      ];
+      return steps.join("\n");
+    },
+  },
+  {
+    name: "weekly_cost_review",
+    description: "Review the last week's shipping spend and flag anything unusual",
+    arguments: [
+      { name: "from_date", description: "Start of the week (YYYY-MM-DD, default 7 days ago)" },
+      { name: "to_date", description: "End of the week (YYYY-MM-DD, default today)" },
+    ],
+    render: (args) => {
+      const from = args.from_date || daysAgoIso(7);
+      const to = args.to_date || todayIso();
+      return [
+        `Review our shipping costs from ${from} to ${to}.`,
+        "",
+        `1. Run chitchats_cost_report for ${from} to ${to} grouped by carrier, then by postage_type, then by country.`,
+        `2. Run chitchats_cost_report for the previous period of the same length, grouped by carrier, for comparison.`,
+        "3. Point out the biggest cost drivers, any carrier or destination whose average per shipment or per kg moved noticeably, and how much went to tariffs, broker fees and taxes.",
+        "4. Suggest concrete savings, e.g. services we could switch to with chitchats_buy_best_rate policies.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "exception_triage",
+    description: "Find shipments in exception or stuck in transit and propose next steps",
+    arguments: [
+      { name: "days", description: "How many days back to look (default 14)" },
+    ],
+    render: (args) => {
+      const days = Number(args.days) || 14;
+      const from = daysAgoIso(days);
+      return [
+        `Triage problem shipments from the last ${days} days.`,
+        "",
+        `1. List shipments with status "exception" using chitchats_list_shipments (from_date: ${from}, all: true).`,
+        `2. List shipments still "in_transit" from the same period, and flag any created more than 7 days ago.`,
+        "3. For each flagged shipment, call chitchats_track_shipment and summarize the latest event and location.",
+        "4. Group them into: needs carrier follow-up, customer contact needed, likely lost (consider chitchats_refund_shipment if unused), or just slow.",
+        "5. Give me a table with shipment ID, order ID, recipient, carrier, tracking number, last event and the recommended action. Do not refund anything without asking me.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "international_customs_check",
+    description: "Check international shipments for missing or weak customs data before buying postage",
+    arguments: [
+      { name: "batch_id", description: "Only check shipments in this batch" },
+      { name: "from_date", description: "Only check shipments created since this date (YYYY-MM-DD)" },
+    ],
+    render: (args) => {
+      const filters = [
+        args.batch_id ? `batch_id: ${args.batch_id}` : undefined,
+        args.from_date ? `from_date: ${args.from_date}` : undefined,
+        "all: true",
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return [
+        "Check customs data on our international shipments.",
+        "",
+        `1. List shipments with chitchats_list_shipments (${filters}) and keep the ones whose destination country is not CA.`,
+        "2. For each, call chitchats_get_line_items.",
+        "3. Flag shipments with no line items, line items missing an HS tariff code, origin country or SKU, vague descriptions (e.g. \"gift\", \"merchandise\"), or zero or implausible values.",
+        "4. For US destinations, also flag missing manufacturer details and note whether delivery duties paid was requested.",
+        "5. Give me a table of flagged shipments with the problem and a suggested fix. Unpaid shipments can be deleted and recreated with chitchats_create_shipment including line_items.",
+      ].join("\n");
+    },
+  },
+];
+
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: prompts.map(({ name, description, arguments: args }) => ({
+        name,
+        description,
+        arguments: args,
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = prompts.find((p) => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter((a) => a.required && !args[a.name])
+      .map((a) => a.name);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument(s) for ${name}: ${missing.join(", ")}`
+      );
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: prompt.render(args) },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,233 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { client, findAccount, withAccount } from "./client.js";
+import { getShipment, type Shipment } from "./tools/shipments.js";
+import { getBatch } from "./tools/batches.js";
+import { findReturn, getReturn, listReturns } from "./tools/returns.js";
+import type { ToolResult } from "./results.js";
+
+const RECENT_LIMIT = 25;
+const POLL_INTERVAL_MS =
+  Number(process.env.CHITCHATS_SUBSCRIPTION_POLL_MS) || 60000;
+
+const resourceTemplates = [
+  {
+    uriTemplate: "chitchats://shipments/{id}{?account}",
+    name: "Shipment",
+    description: "Full details of a shipment: recipient, package, costs, rates, labels",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "chitchats://batches/{id}{?account}",
+    name: "Batch",
+    description: "Details of a batch",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "chitchats://returns/{id}{?account}",
+    name: "Return",
+    description: "Details of a return and its original shipment",
+    mimeType: "application/json",
+  },
+];
+
+// Every URI is read from one account: the default, or ?account=name
+type ParsedUri = { account: string } & (
+  | { kind: "shipment"; id: string }
+  | { kind: "batch"; id: string }
+  | { kind: "return"; id: string }
+  | { kind: "returns" }
+);
+
+const URI_KINDS = { shipments: "shipment", batches: "batch", returns: "return" } as const;
+
+function parseUri(uri: string): ParsedUri {
+  const queryStart = uri.indexOf("?");
+  const path = queryStart === -1 ? uri : uri.slice(0, queryStart);
+  const query = new URLSearchParams(queryStart === -1 ? "" : uri.slice(queryStart + 1));
+
+  const found = findAccount(query.get("account") || undefined);
+  if (typeof found === "string") throw new McpError(ErrorCode.InvalidParams, found);
+  const account = found.name;
+
+  const match = path.match(/^chitchats:\/\/(shipments|batches|returns)\/([^/#]+)$/);
+  if (match) {
+    const id = decodeURIComponent(match[2]);
+    return { account, kind: URI_KINDS[match[1] as keyof typeof URI_KINDS], id };
+  }
+  if (path === "chitchats://returns") return { account, kind: "returns" };
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
+
+function readParsed(parsed: ParsedUri): Promise<ToolResult> {
+  return withAccount(parsed.account, () => read(parsed));
+}
+
+async function read(parsed: ParsedUri): Promise<ToolResult> {
+  switch (parsed.kind) {
+    case "shipment":
+      return getShipment({ id: parsed.id });
+    case "batch":
+      return getBatch({ id: parsed.id });
+    case "return":
+      return getReturn({ id: parsed.id });
+    case "returns":
+      return listReturns({ limit: RECENT_LIMIT });
+  }
+}
+
+// Fetch just the status used to detect changes on subscribed resources
+function fetchStatus(parsed: ParsedUri): Promise<string | undefined> {
+  return withAccount(parsed.account, () => readStatus(parsed));
+}
+
+async function readStatus(parsed: ParsedUri): Promise<string | undefined> {
+  if (parsed.kind === "shipment") {
+    const response = await client.get<{ shipment: Shipment }>(`/shipments/${parsed.id}`);
+    return response.data?.shipment?.status;
+  }
+  if (parsed.kind === "batch") {
+    const response = await client.get<{ batch: { status: string } }>(`/batches/${parsed.id}`);
+    return response.data?.batch?.status;
+  }
+  if (parsed.kind === "return") {
+    const found = await findReturn(parsed.id);
+    return typeof found === "object" ? found.status : undefined;
+  }
+  return undefined;
+}
+
+export function registerResources(server: Server): void {
+  // Subscribed URI -> last status seen
+  const subscriptions = new Map<string, string | undefined>();
+  let pollTimer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  async function poll(): Promise<void> {
+    for (const [uri, lastStatus] of subscriptions) {
+      const status = await fetchStatus(parseUri(uri));
+      // A failed fetch leaves the last known status in place
+      if (status === undefined || !subscriptions.has(uri)) continue;
+      subscriptions.set(uri, status);
+      if (lastStatus !== undefined && status !== lastStatus) {
+        await server.sendResourceUpdated({ uri });
+      }
+    }
+  }
+
+  // The next poll is scheduled once the last one finishes, so a slow API
+  // can't stack polls on top of each other
+  function updatePolling(): void {
+    if (subscriptions.size > 0 && !pollTimer && !polling) {
+      pollTimer = setTimeout(() => {
+        pollTimer = undefined;
+        polling = true;
+        poll()
+          .catch((error) => console.error("Resource poll failed:", error))
+          .finally(() => {
+            polling = false;
+            updatePolling();
+          });
+      }, POLL_INTERVAL_MS);
+      pollTimer.unref();
+    } else if (subscriptions.size === 0 && pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = undefined;
+    }
+  }
+
+  // Stop polling when the client disconnects (HTTP sessions come and go)
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    subscriptions.clear();
+    updatePolling();
+    previousOnClose?.();
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const [shipments, batches] = await Promise.all([
+      client.get<Shipment[]>(`/shipments?limit=${RECENT_LIMIT}`),
+      client.get<{ id: string; status: string; description?: string }[]>(
+        `/batches?limit=${RECENT_LIMIT}`
+      ),
+    ]);
+
+    return {
+      resources: [
+        {
+          uri: "chitchats://returns",
+          name: "Recent returns",
+          description: `The ${RECENT_LIMIT} most recent return shipments`,
+          mimeType: "application/json",
+        },
+        ...(shipments.data || []).map((s) => ({
+          uri: `chitchats://shipments/${encodeURIComponent(s.id)}`,
+          name: `Shipment ${s.id}`,
+          description: `${s.status} - ${s.to_name}, ${s.to_city}, ${s.to_country_code}${s.order_id ? ` (order ${s.order_id})` : ""}`,
+          mimeType: "application/json",
+        })),
+        ...(batches.data || []).map((b) => ({
+          uri: `chitchats://batches/${encodeURIComponent(b.id)}`,
+          name: `Batch ${b.id}`,
+          description: `${b.status}${b.description ? ` - ${b.description}` : ""}`,
+          mimeType: "application/json",
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const result = await readParsed(parseUri(uri));
+
+    if (result.isError) {
+      throw new McpError(ErrorCode.InvalidParams, result.text);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(result.structured, null, 2),
+        },
+        { uri, mimeType: "text/markdown", text: result.text },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parseUri(uri);
+
+    if (parsed.kind === "returns") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Subscriptions are supported for individual shipments, batches and returns only"
+      );
+    }
+
+    subscriptions.set(uri, await fetchStatus(parsed));
+    updatePolling();
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    updatePolling();
+    return {};
+  });
+}
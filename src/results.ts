@@ -0,0 +1,11 @@
+// What every tool handler returns: markdown for humans, plus structured data
+// matching the tool's declared outputSchema for downstream automation.
+export interface ToolResult {
+  text: string;
+  structured?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export function toolError(text: string): ToolResult {
+  return { text, isError: true };
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { addressFrom, checkAddress } from "./addresses.js";
 
 // Shipment schemas
 export const ListShipmentsSchema = z.object({
@@ -9,6 +10,15 @@ export const ListShipmentsSchema = z.object({
     .optional()
     .describe("Number of records to return (max 1000)"),
   page: z.number().min(1).optional().describe("Page number for pagination"),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page until exhausted (limit becomes the page size)"),
+  max_records: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Fetch pages until this many records are collected (implies all)"),
   batch_id: z.string().optional().describe("Filter by batch ID"),
   status: z
     .string()
@@ -30,11 +40,78 @@ export const ListShipmentsSchema = z.object({
     ),
 });
 
+export const ExportShipmentsSchema = ListShipmentsSchema.omit({
+  limit: true,
+  page: true,
+  all: true,
+}).extend({
+  path: z.string().describe("Local file path to write"),
+  format: z
+    .enum(["csv", "jsonl"])
+    .optional()
+    .describe("Output format: csv or jsonl (JSON Lines). Default: csv"),
+  line_items: z
+    .boolean()
+    .optional()
+    .describe("Write one row per line item (with HS code and SKU) instead of one per shipment"),
+  overwrite: z.boolean().optional().describe("Replace the file if it already exists"),
+});
+
+export const CostReportSchema = z.object({
+  from_date: z.string().optional().describe("Include shipments from this date (YYYY-MM-DD)"),
+  to_date: z.string().optional().describe("Include shipments to this date (YYYY-MM-DD)"),
+  group_by: z
+    .enum(["month", "carrier", "postage_type", "country", "order_store"])
+    .optional()
+    .describe("How to group costs (default: month)"),
+  status: z.string().optional().describe("Only include shipments with this status"),
+  batch_id: z.string().optional().describe("Only include shipments in this batch"),
+  max_records: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Stop after this many shipments"),
+});
+
 export const GetShipmentSchema = z.object({
   id: z.string().describe("Shipment ID"),
 });
 
-export const CreateShipmentSchema = z.object({
+export const LineItemSchema = z.object({
+  quantity: z.number().int().min(1).describe("Number of units"),
+  description: z.string().min(1).describe("Item description for customs"),
+  value_amount: z.number().min(0).describe("Value per unit"),
+  currency_code: z.enum(["CAD", "USD"]).describe("Value currency"),
+  hs_tariff_code: z
+    .string()
+    .regex(
+      /^\d{4}(\.?\d{2}){1,3}$/,
+      "HS tariff code must be 6, 8 or 10 digits, optionally dotted (e.g., 6109.10)"
+    )
+    .optional()
+    .describe("Harmonized System tariff code (e.g., 6109.10)"),
+  sku_code: z.string().optional().describe("Item SKU"),
+  origin_country: z
+    .string()
+    .length(2)
+    .optional()
+    .describe("Country of origin (2-letter code, e.g., CA, CN)"),
+  weight: z.number().positive().optional().describe("Weight per unit"),
+  weight_unit: z.enum(["g", "kg", "oz", "lb"]).optional().describe("Weight unit"),
+  manufacturer_id: z.string().optional().describe("Manufacturer ID (MID)"),
+  manufacturer_contact: z.string().optional().describe("Manufacturer contact name"),
+  manufacturer_street: z.string().optional().describe("Manufacturer street address"),
+  manufacturer_street_2: z.string().optional().describe("Manufacturer street address line 2"),
+  manufacturer_city: z.string().optional().describe("Manufacturer city"),
+  manufacturer_postal_code: z.string().optional().describe("Manufacturer postal code"),
+  manufacturer_province_code: z.string().optional().describe("Manufacturer province/state code"),
+  manufacturer_country_code: z.string().length(2).optional().describe("Manufacturer country code"),
+  manufacturer_phone: z.string().optional().describe("Manufacturer phone"),
+  manufacturer_email: z.string().optional().describe("Manufacturer email"),
+});
+
+// Plain object shape, kept separate so the field list stays introspectable
+export const CreateShipmentFieldsSchema = z.object({
   name: z.string().describe("Recipient name"),
   address_1: z.string().describe("Street address line 1"),
   address_2: z.string().optional().describe("Street address line 2"),
@@ -68,18 +145,246 @@ export const CreateShipmentSchema = z.object({
     .optional()
     .describe("E-commerce platform (e.g., shopify, etsy)"),
   postage_type: z.string().optional().describe("Postage service type"),
+  line_items: z
+    .array(LineItemSchema)
+    .optional()
+    .describe("Per-item customs data (required by most international destinations)"),
+
+  // Return address (defaults to the account's return address when omitted)
+  return_name: z.string().optional().describe("Return address name"),
+  return_address_1: z.string().optional().describe("Return street address line 1"),
+  return_address_2: z.string().optional().describe("Return street address line 2"),
+  return_city: z.string().optional().describe("Return city"),
+  return_province_code: z.string().optional().describe("Return province/state code"),
+  return_postal_code: z.string().optional().describe("Return postal/ZIP code"),
+  return_country_code: z.string().optional().describe("Return country code"),
+  return_phone: z.string().optional().describe("Return phone number"),
+  is_return_dispose: z
+    .boolean()
+    .optional()
+    .describe("Dispose of the package instead of returning it if undeliverable"),
+
+  // Service options
+  is_insurance_requested: z.boolean().optional().describe("Request insurance"),
+  is_signature_requested: z
+    .boolean()
+    .optional()
+    .describe("Require a signature on delivery"),
+  is_media_mail_requested: z
+    .boolean()
+    .optional()
+    .describe("Ship as USPS Media Mail (US destinations, books and media only)"),
+  is_delivery_duties_paid_requested: z
+    .boolean()
+    .optional()
+    .describe("Prepay duties and taxes for the recipient (DDP, international only)"),
 });
 
+const REQUIRED_RETURN_FIELDS = [
+  "return_name",
+  "return_address_1",
+  "return_city",
+  "return_province_code",
+  "return_postal_code",
+  "return_country_code",
+] as const;
+
+export const CreateShipmentSchema = CreateShipmentFieldsSchema.superRefine(
+  (params, ctx) => {
+    const hasReturnAddress =
+      REQUIRED_RETURN_FIELDS.some((field) => params[field]) ||
+      Boolean(params.return_address_2 || params.return_phone);
+
+    if (hasReturnAddress) {
+      for (const field of REQUIRED_RETURN_FIELDS) {
+        if (!params[field]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `${field} is required when a custom return address is given`,
+          });
+        }
+      }
+    }
+
+    // Address errors; warnings and normalizations are reported by createShipment.
+    // A partial return address is still checked, minus the fields already
+    // reported as missing above.
+    const prefixes = [""];
+    if (params.return_country_code) prefixes.push("return_");
+    for (const prefix of prefixes) {
+      const address = addressFrom(params, prefix);
+      for (const issue of checkAddress(address).issues) {
+        if (issue.severity !== "error" || (prefix && !address[issue.field])) continue;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [`${prefix}${issue.field}`],
+          message: issue.message,
+        });
+      }
+    }
+
+    if (params.is_return_dispose && hasReturnAddress) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["is_return_dispose"],
+        message:
+          "is_return_dispose cannot be combined with a return address; undeliverable packages would be disposed of, not returned",
+      });
+    }
+
+    const country = checkAddress(addressFrom(params)).address.country_code;
+
+    if (params.is_media_mail_requested && country !== "US") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["is_media_mail_requested"],
+        message: "Media Mail is only available for US destinations",
+      });
+    }
+
+    if (params.is_delivery_duties_paid_requested && country === "CA") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["is_delivery_duties_paid_requested"],
+        message: "Delivery duties paid only applies to international shipments",
+      });
+    }
+
+    const hasDeclaredValue =
+      (params.value ?? 0) > 0 ||
+      (params.line_items || []).some((item) => item.value_amount > 0);
+
+    if (params.is_insurance_requested && !hasDeclaredValue) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["is_insurance_requested"],
+        message: "Insurance requires a declared value or valued line items",
+      });
+    }
+  }
+);
+
+export const ValidateAddressSchema = z.object({
+  name: z.string().optional().describe("Recipient name"),
+  address_1: z.string().optional().describe("Street address line 1"),
+  address_2: z.string().optional().describe("Street address line 2"),
+  city: z.string().optional().describe("City"),
+  province_code: z
+    .string()
+    .optional()
+    .describe("Province/state code or name (e.g., ON, California)"),
+  postal_code: z.string().optional().describe("Postal/ZIP code"),
+  country_code: z.string().describe("Country code or name (e.g., CA, US, United Kingdom)"),
+  phone: z.string().optional().describe("Phone number"),
+  email: z.string().optional().describe("Email address"),
+});
+
+export const ImportShipmentsCsvSchema = z.object({
+  path: z.string().describe("Path to a local CSV file with a header row"),
+  column_map: z
+    .record(z.string())
+    .optional()
+    .describe(
+      "Map of shipment field to CSV column header, e.g. {\"name\": \"Ship Name\"}. Unmapped fields use columns named like the field."
+    ),
+  delimiter: z.string().length(1).optional().describe("Field delimiter (default: comma)"),
+  skip_invalid: z
+    .boolean()
+    .optional()
+    .describe("Create the valid rows even if some rows fail validation (default: create nothing)"),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe("Shipments created in parallel (default 4)"),
+  batch_description: z
+    .string()
+    .optional()
+    .describe("Create a new batch with this description and add the created shipments to it"),
+  dry_run: z.boolean().optional().describe("Validate rows without creating anything"),
+});
+
+export const ImportShopifyOrdersSchema = z
+  .object({
+    orders: z
+      .unknown()
+      .optional()
+      .describe("Shopify order JSON: one order, an array, or an { order } / { orders } API response"),
+    path: z
+      .string()
+      .optional()
+      .describe("Local file with Shopify orders: API JSON, JSON Lines, or the admin orders CSV export"),
+    defaults: z
+      .record(z.unknown())
+      .optional()
+      .describe(
+        "chitchats_create_shipment fields applied to every order, e.g. package_type, size_x, postage_type"
+      ),
+    skip_invalid: z
+      .boolean()
+      .optional()
+      .describe("Create the valid orders even if some fail validation (default: create nothing)"),
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Orders checked and created in parallel (default 4)"),
+    batch_description: z
+      .string()
+      .optional()
+      .describe("Create a new batch with this description and add the created shipments to it"),
+    dry_run: z.boolean().optional().describe("Map and validate orders without creating anything"),
+  })
+  .refine((params) => (params.orders === undefined) !== (params.path === undefined), {
+    message: "Provide exactly one of orders or path",
+  });
+
 export const DeleteShipmentSchema = z.object({
   id: z.string().describe("Shipment ID to delete (must be unpaid)"),
 });
 
 export const BuyPostageSchema = z.object({
   id: z.string().describe("Shipment ID to purchase postage for"),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Preview the selected rate and cost without purchasing"),
 });
 
 export const RefundShipmentSchema = z.object({
   id: z.string().describe("Shipment ID to request refund for"),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Preview what would be refunded without requesting it"),
+});
+
+export const BuyBestRateSchema = z.object({
+  id: z.string().describe("Shipment ID to purchase postage for"),
+  policy: z
+    .enum(["cheapest", "fastest"])
+    .optional()
+    .describe("How to rank eligible rates (default: cheapest)"),
+  tracked_only: z.boolean().optional().describe("Only consider rates with tracking"),
+  require_signature: z
+    .boolean()
+    .optional()
+    .describe("Only consider rates with signature confirmation"),
+  require_insurance: z.boolean().optional().describe("Only consider insured rates"),
+  max_price: z.number().positive().optional().describe("Maximum total cost"),
+  exclude_carriers: z
+    .array(z.string())
+    .optional()
+    .describe("Carriers to skip (matched against postage_carrier_type, e.g., ups, usps)"),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Show which rate would win without setting or buying it"),
 });
 
 export const RefreshRatesSchema = z.object({
@@ -106,6 +411,15 @@ export const ListBatchesSchema = z.object({
     .optional()
     .describe("Number of records to return (max 1000)"),
   page: z.number().min(1).optional().describe("Page number for pagination"),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page until exhausted (limit becomes the page size)"),
+  max_records: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Fetch pages until this many records are collected (implies all)"),
   status: z
     .enum(["pending", "received"])
     .optional()
@@ -118,6 +432,10 @@ export const CreateBatchSchema = z.object({
 
 export const GetBatchSchema = z.object({
   id: z.string().describe("Batch ID"),
+  include_shipments: z
+    .boolean()
+    .optional()
+    .describe("List member shipments with totals and a readiness check (default: true)"),
 });
 
 export const DeleteBatchSchema = z.object({
@@ -131,6 +449,22 @@ export const AddToBatchSchema = z.object({
     .describe("Array of shipment IDs to add to the batch"),
 });
 
+export const BatchManifestSchema = z.object({
+  batch_id: z.string().describe("Batch ID"),
+  format: z
+    .enum(["csv", "markdown", "html", "pdf"])
+    .optional()
+    .describe("Manifest format (default: markdown)"),
+  output_dir: z
+    .string()
+    .optional()
+    .describe("Directory to save into (default: CHITCHATS_LABEL_DIR or ./labels)"),
+  pick_list: z
+    .boolean()
+    .optional()
+    .describe("Add a pick list of total quantities per SKU (default: true)"),
+});
+
 export const RemoveFromBatchSchema = z.object({
   shipment_ids: z
     .array(z.string())
@@ -144,6 +478,33 @@ export const CountBatchesSchema = z.object({
     .describe("Filter by status"),
 });
 
+export const AutoBatchSchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .describe("Shipment status to collect (default: ready)"),
+  from_date: z.string().optional().describe("Only shipments created from this date (YYYY-MM-DD)"),
+  to_date: z.string().optional().describe("Only shipments created up to this date (YYYY-MM-DD)"),
+  carriers: z
+    .array(z.string())
+    .optional()
+    .describe("Only shipments with one of these carriers (e.g., usps, ups, chitchats)"),
+  destination: z
+    .enum(["domestic", "international"])
+    .optional()
+    .describe("Only Canadian (domestic) or non-Canadian (international) recipients"),
+  order_stores: z
+    .array(z.string())
+    .optional()
+    .describe("Only shipments from these order stores"),
+  max_shipments: z.number().min(1).optional().describe("Add at most this many shipments"),
+  description: z
+    .string()
+    .optional()
+    .describe("Batch description (default: generated from the date and rules)"),
+  dry_run: z.boolean().optional().describe("Show the plan without creating anything"),
+});
+
 // Returns schemas
 export const ListReturnsSchema = z.object({
   limit: z
@@ -153,11 +514,175 @@ export const ListReturnsSchema = z.object({
     .optional()
     .describe("Number of records to return (max 1000)"),
   page: z.number().min(1).optional().describe("Page number for pagination"),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page until exhausted (limit becomes the page size)"),
+  max_records: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Fetch pages until this many records are collected (implies all)"),
   status: z.string().optional().describe("Filter by return status"),
   reason: z.string().optional().describe("Filter by return reason"),
+  order_id: z
+    .string()
+    .optional()
+    .describe("Only returns for this order (walks every return page)"),
 });
 
+export const GetReturnSchema = z.object({
+  id: z.string().describe("Return ID"),
+  include_shipment: z
+    .boolean()
+    .optional()
+    .describe("Also load the original shipment (default: true)"),
+});
+
+
+// Label schemas
+export const DownloadLabelsSchema = z
+  .object({
+    id: z.string().optional().describe("Single shipment ID"),
+    shipment_ids: z.array(z.string()).optional().describe("List of shipment IDs"),
+    batch_id: z.string().optional().describe("Download labels for every shipment in this batch"),
+    format: z
+      .enum(["pdf", "png", "zpl"])
+      .optional()
+      .describe("Label format (default: pdf)"),
+    output_dir: z
+      .string()
+      .optional()
+      .describe("Directory to save into (default: CHITCHATS_LABEL_DIR or ./labels)"),
+    merge: z
+      .boolean()
+      .optional()
+      .describe("Also combine PDF/ZPL labels into one print-ready file (default: true)"),
+  })
+  .refine(
+    (params) =>
+      [params.id, params.shipment_ids, params.batch_id].filter((v) => v !== undefined)
+        .length === 1,
+    { message: "Provide exactly one of id, shipment_ids or batch_id" }
+  );
+
+export const PrintLabelsSchema = z
+  .object({
+    id: z.string().optional().describe("Single shipment ID"),
+    shipment_ids: z.array(z.string()).optional().describe("List of shipment IDs"),
+    batch_id: z.string().optional().describe("Print every label in this batch"),
+    printer: z
+      .string()
+      .optional()
+      .describe("Printer profile name (default: CHITCHATS_DEFAULT_PRINTER or the only printer)"),
+    copies: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Copies of each label (default: the printer profile's copies, usually 1)"),
+  })
+  .refine(
+    (params) =>
+      [params.id, params.shipment_ids, params.batch_id].filter((v) => v !== undefined)
+        .length === 1,
+    { message: "Provide exactly one of id, shipment_ids or batch_id" }
+  );
+
 // Tracking schemas
 export const TrackShipmentSchema = z.object({
   id: z.string().describe("Shipment ID to get tracking for"),
 });
+
+export const TrackingWatcherSchema = z.object({
+  action: z
+    .enum(["status", "start", "stop", "check"])
+    .optional()
+    .describe("status (default), start or stop background polling, or check now"),
+  interval_minutes: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Polling interval when starting (default: CHITCHATS_WATCH_INTERVAL_MINUTES or 15)"),
+  notify_statuses: z
+    .array(z.string())
+    .optional()
+    .describe("Only notify when tracking reaches these statuses, e.g. [\"exception\", \"delivered\"] (empty: any change)"),
+});
+
+// Cache schemas
+const CacheCollectionSchema = z.enum(["shipments", "batches", "returns"]);
+
+export const SyncCacheSchema = z.object({
+  collections: z
+    .array(CacheCollectionSchema)
+    .optional()
+    .describe("Collections to sync (default: all)"),
+  full: z
+    .boolean()
+    .optional()
+    .describe("Re-fetch everything instead of syncing shipments incrementally"),
+});
+
+const CacheConditionSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z
+    .object({
+      gte: z.union([z.string(), z.number()]).optional(),
+      lte: z.union([z.string(), z.number()]).optional(),
+      contains: z.string().optional(),
+      in: z.array(z.union([z.string(), z.number()])).optional(),
+    })
+    .strict(),
+]);
+
+export const QueryCacheSchema = z.object({
+  collection: CacheCollectionSchema.optional().describe("What to query (default: shipments)"),
+  where: z
+    .record(CacheConditionSchema)
+    .optional()
+    .describe(
+      "Field conditions, e.g. { \"status\": \"delivered\", \"to_country_code\": \"US\", \"purchase_amount\": { \"gte\": 10 } }. Plain values match exactly (case-insensitive); objects support gte, lte, contains and in."
+    ),
+  from_date: z.string().optional().describe("Only records created on or after this date (YYYY-MM-DD)"),
+  to_date: z.string().optional().describe("Only records created on or before this date (YYYY-MM-DD)"),
+  search: z
+    .string()
+    .optional()
+    .describe("Case-insensitive text found in any field"),
+  sort_by: z.string().optional().describe("Field to sort by (default: created_at)"),
+  order: z.enum(["asc", "desc"]).optional().describe("Sort order (default: desc)"),
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe("Only return these fields of each record"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe("Maximum records to return (default: 50)"),
+  refresh: z.boolean().optional().describe("Sync this collection before querying"),
+  max_age_minutes: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Sync first if the cache is older than this"),
+});
+
+// Webhook schemas
+export const ReplayWebhooksSchema = z.object({
+  event_ids: z
+    .array(z.string())
+    .optional()
+    .describe("Only replay these event IDs (default: every failed delivery)"),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("List the failed deliveries without sending them"),
+});
@@ -0,0 +1,22 @@
+import { defaultAccountName, getAccounts } from "../client.js";
+import type { ToolResult } from "../results.js";
+
+export async function listAccounts(): Promise<ToolResult> {
+  const defaultName = defaultAccountName();
+  const accounts = getAccounts().map((a) => ({
+    name: a.name,
+    client_id: a.clientId,
+    base_url: a.baseUrl,
+    is_default: a.name === defaultName,
+  }));
+
+  const formatted = accounts.map(
+    (a) =>
+      `- **${a.name}**${a.is_default ? " (default)" : ""}: client ${a.client_id || "(not set)"} on ${a.base_url}`
+  );
+
+  return {
+    text: `${accounts.length} account(s) configured:\n\n${formatted.join("\n")}\n\nPass \`account\` to any tool to use an account other than the default.`,
+    structured: { accounts, default_account: defaultName },
+  };
+}
@@ -0,0 +1,41 @@
+import type { z } from "zod";
+import { checkAddress } from "../addresses.js";
+import type { ValidateAddressSchema } from "../schemas.js";
+import type { ToolResult } from "../results.js";
+
+export async function validateAddress(
+  params: z.infer<typeof ValidateAddressSchema>
+): Promise<ToolResult> {
+  const result = checkAddress(params);
+  const a = result.address;
+  const errors = result.issues.filter((i) => i.severity === "error");
+  const warnings = result.issues.filter((i) => i.severity === "warning");
+
+  const lines = [
+    result.valid
+      ? `## Address Valid${warnings.length > 0 ? " (with warnings)" : ""}`
+      : `## Address Invalid (${errors.length} error(s))`,
+    "",
+  ];
+  if (a.name) lines.push(a.name);
+  if (a.address_1) lines.push(a.address_1);
+  if (a.address_2) lines.push(a.address_2);
+  lines.push([a.city, a.province_code, a.postal_code].filter(Boolean).join(" "), a.country_code);
+  if (a.phone) lines.push(`Phone: ${a.phone}`);
+  if (a.email) lines.push(`Email: ${a.email}`);
+
+  if (errors.length > 0) {
+    lines.push("", "### Errors");
+    for (const e of errors) lines.push(`- ${e.field}: ${e.message}`);
+  }
+  if (warnings.length > 0) {
+    lines.push("", "### Warnings");
+    for (const w of warnings) lines.push(`- ${w.field}: ${w.message}`);
+  }
+  if (result.changes.length > 0) {
+    lines.push("", "### Normalized");
+    for (const c of result.changes) lines.push(`- ${c.field}: "${c.from}" -> "${c.to}"`);
+  }
+
+  return { text: lines.join("\n"), structured: { ...result } };
+}
@@ -1,4 +1,6 @@
 import { client } from "../client.js";
+import { fetchList } from "../pagination.js";
+import { toolError, type ToolResult } from "../results.js";
 import type { z } from "zod";
 import type {
   ListBatchesSchema,
@@ -8,9 +10,12 @@ import type {
   AddToBatchSchema,
   RemoveFromBatchSchema,
   CountBatchesSchema,
+  AutoBatchSchema,
 } from "../schemas.js";
+import type { Shipment } from "./shipments.js";
+import { amount, weightKg } from "./reports.js";
 
-interface Batch {
+export interface Batch {
   id: string;
   status: string;
   description?: string;
@@ -20,26 +25,27 @@ interface Batch {
 
 export async function listBatches(
   params: z.infer<typeof ListBatchesSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams = new URLSearchParams();
 
-  if (params.limit) queryParams.set("limit", params.limit.toString());
-  if (params.page) queryParams.set("page", params.page.toString());
   if (params.status) queryParams.set("status", params.status);
 
-  const query = queryParams.toString();
-  const endpoint = `/batches${query ? `?${query}` : ""}`;
-
-  const response = await client.get<Batch[]>(endpoint);
+  const response = await fetchList<Batch>("/batches", queryParams, params);
 
   if (response.error) {
-    return `Error listing batches: ${response.error}`;
+    return toolError(`Error listing batches: ${response.error}`);
   }
 
-  const batches = response.data || [];
+  const batches = response.items;
+  const structured = {
+    batches,
+    count: batches.length,
+    ...(response.pages !== undefined && { pages: response.pages }),
+    ...(response.warning && { warning: response.warning }),
+  };
 
   if (batches.length === 0) {
-    return "No batches found.";
+    return { text: "No batches found.", structured };
   }
 
   const formatted = batches.map((b) => {
@@ -53,41 +59,88 @@ export async function listBatches(
     return lines.join("\n");
   });
 
-  return `Found ${batches.length} batch(es):\n\n${formatted.join("\n\n---\n\n")}`;
+  const warning = response.warning ? `\n\n**Warning:** ${response.warning}` : "";
+
+  return {
+    text: `Found ${batches.length} batch(es)${response.summary}:\n\n${formatted.join("\n\n---\n\n")}${warning}`,
+    structured,
+  };
 }
 
 export async function createBatch(
   params: z.infer<typeof CreateBatchSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const body: Record<string, unknown> = {};
   if (params.description) body.description = params.description;
 
   const response = await client.post<{ batch: Batch }>("/batches", body);
 
   if (response.error) {
-    return `Error creating batch: ${response.error}`;
+    return toolError(`Error creating batch: ${response.error}`);
   }
 
   const b = response.data?.batch;
   if (!b) {
-    return "Batch created but no data returned.";
+    return { text: "Batch created but no data returned.", structured: {} };
   }
 
-  return `Batch created successfully!\n\nID: ${b.id}\nStatus: ${b.status}${b.description ? `\nDescription: ${b.description}` : ""}`;
+  return {
+    text: `Batch created successfully!\n\nID: ${b.id}\nStatus: ${b.status}${b.description ? `\nDescription: ${b.description}` : ""}`,
+    structured: { batch: b },
+  };
+}
+
+// Shipment statuses that mean postage hasn't been bought yet
+const UNPAID_STATUSES = new Set(["pending", "unpaid"]);
+// Shipment statuses that shouldn't go out in a drop-off
+const PROBLEM_STATUSES = new Set([
+  "exception",
+  "cancelled",
+  "canceled",
+  "refund_requested",
+  "refunded",
+  "voided",
+]);
+
+export interface BatchIssue {
+  shipment_id: string;
+  order_id?: string;
+  problem: "unpaid" | "errored" | "no_label";
+  detail: string;
+}
+
+function hasLabel(s: Shipment): boolean {
+  return Boolean(s.postage_label_pdf_url || s.postage_label_png_url || s.postage_label_zpl_url);
+}
+
+// Everything that would stop a shipment from being dropped off with its batch
+export function batchIssues(shipments: Shipment[]): BatchIssue[] {
+  const issues: BatchIssue[] = [];
+  for (const s of shipments) {
+    const base = { shipment_id: s.id, ...(s.order_id && { order_id: s.order_id }) };
+    if (PROBLEM_STATUSES.has(s.status)) {
+      issues.push({ ...base, problem: "errored", detail: `Status is ${s.status}` });
+    } else if (UNPAID_STATUSES.has(s.status) || !s.purchase_amount) {
+      issues.push({ ...base, problem: "unpaid", detail: "Postage has not been bought" });
+    } else if (!hasLabel(s)) {
+      issues.push({ ...base, problem: "no_label", detail: "Postage is paid but no label is available yet" });
+    }
+  }
+  return issues;
 }
 
 export async function getBatch(
   params: z.infer<typeof GetBatchSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ batch: Batch }>(`/batches/${params.id}`);
 
   if (response.error) {
-    return `Error getting batch: ${response.error}`;
+    return toolError(`Error getting batch: ${response.error}`);
   }
 
   const b = response.data?.batch;
   if (!b) {
-    return `Batch ${params.id} not found.`;
+    return toolError(`Batch ${params.id} not found.`);
   }
 
   const lines = [
@@ -101,24 +154,103 @@ export async function getBatch(
     lines.push(`**Shipments:** ${b.shipment_count}`);
   lines.push(`**Created:** ${b.created_at}`);
 
-  return lines.join("\n");
+  if (params.include_shipments === false) {
+    return { text: lines.join("\n"), structured: { batch: b } };
+  }
+
+  const members = await fetchList<Shipment>(
+    "/shipments",
+    new URLSearchParams({ batch_id: b.id }),
+    { all: true }
+  );
+  if (members.error) {
+    lines.push("", `**Warning:** could not load the batch's shipments: ${members.error}`);
+    return { text: lines.join("\n"), structured: { batch: b } };
+  }
+
+  const shipments = members.items;
+  const weights = shipments.map(weightKg);
+  const totals = {
+    shipments: shipments.length,
+    cost: Math.round(shipments.reduce((sum, s) => sum + amount(s.purchase_amount), 0) * 100) / 100,
+    weight_kg: Math.round(weights.reduce((sum: number, w) => sum + (w ?? 0), 0) * 1000) / 1000,
+  };
+  const issues = batchIssues(shipments);
+  const warnings: string[] = [];
+  if (members.warning) warnings.push(members.warning);
+  if (b.shipment_count !== undefined && b.shipment_count !== shipments.length) {
+    warnings.push(`The batch reports ${b.shipment_count} shipment(s) but ${shipments.length} were found.`);
+  }
+  if (weights.some((w) => w === undefined)) {
+    warnings.push("Some shipments have no usable weight; the total weight leaves them out.");
+  }
+  const ready = shipments.length > 0 && issues.length === 0 && !members.warning;
+
+  lines.push("", "### Totals");
+  lines.push(`**Shipments Found:** ${totals.shipments}`);
+  lines.push(`**Total Cost:** $${totals.cost.toFixed(2)}`);
+  lines.push(`**Total Weight:** ${totals.weight_kg} kg`);
+
+  if (shipments.length > 0) {
+    const flagged = new Map(issues.map((i) => [i.shipment_id, i]));
+    lines.push("", "### Shipments", "");
+    lines.push("| ID | Order | Recipient | Status | Postage | Label |");
+    lines.push("|----|-------|-----------|--------|---------|-------|");
+    for (const s of shipments) {
+      const issue = flagged.get(s.id);
+      lines.push(
+        `| ${s.id} | ${s.order_id || ""} | ${s.to_name}, ${s.to_country_code} | ${s.status}${issue ? " ⚠" : ""} | ${
+          s.purchase_amount ? `$${s.purchase_amount}` : "unpaid"
+        } | ${hasLabel(s) ? "yes" : "no"} |`
+      );
+    }
+  }
+
+  lines.push("", "### Readiness");
+  if (shipments.length === 0) {
+    lines.push("**Not ready:** the batch has no shipments.");
+  } else if (ready) {
+    lines.push(`**Ready for drop-off:** all ${shipments.length} shipment(s) are paid and labelled.`);
+  } else {
+    lines.push(`**Not ready:** ${issues.length} shipment(s) need attention.`);
+    for (const issue of issues) {
+      lines.push(`- ${issue.shipment_id}${issue.order_id ? ` (order ${issue.order_id})` : ""}: ${issue.detail}`);
+    }
+  }
+  for (const warning of warnings) lines.push("", `**Warning:** ${warning}`);
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      batch: b,
+      shipments,
+      totals,
+      readiness: { ready, issues },
+      ...(warnings.length > 0 && { warnings }),
+    },
+  };
 }
 
 export async function deleteBatch(
   params: z.infer<typeof DeleteBatchSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.delete(`/batches/${params.id}`);
 
   if (response.error) {
-    return `Error deleting batch: ${response.error}. Note: Only empty batches can be deleted.`;
+    return toolError(
+      `Error deleting batch: ${response.error}. Note: Only empty batches can be deleted.`
+    );
   }
 
-  return `Batch ${params.id} deleted successfully.`;
+  return {
+    text: `Batch ${params.id} deleted successfully.`,
+    structured: { action: "deleted", batch_id: params.id },
+  };
 }
 
 export async function addToBatch(
   params: z.infer<typeof AddToBatchSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const body = {
     batch_id: params.batch_id,
     shipment_ids: params.shipment_ids,
@@ -127,15 +259,22 @@ export async function addToBatch(
   const response = await client.patch("/shipments/add_to_batch", body);
 
   if (response.error) {
-    return `Error adding shipments to batch: ${response.error}`;
+    return toolError(`Error adding shipments to batch: ${response.error}`);
   }
 
-  return `Successfully added ${params.shipment_ids.length} shipment(s) to batch ${params.batch_id}.`;
+  return {
+    text: `Successfully added ${params.shipment_ids.length} shipment(s) to batch ${params.batch_id}.`,
+    structured: {
+      action: "added",
+      batch_id: params.batch_id,
+      shipment_ids: params.shipment_ids,
+    },
+  };
 }
 
 export async function removeFromBatch(
   params: z.infer<typeof RemoveFromBatchSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const body = {
     shipment_ids: params.shipment_ids,
   };
@@ -143,15 +282,18 @@ export async function removeFromBatch(
   const response = await client.patch("/shipments/remove_from_batch", body);
 
   if (response.error) {
-    return `Error removing shipments from batch: ${response.error}`;
+    return toolError(`Error removing shipments from batch: ${response.error}`);
   }
 
-  return `Successfully removed ${params.shipment_ids.length} shipment(s) from their batches.`;
+  return {
+    text: `Successfully removed ${params.shipment_ids.length} shipment(s) from their batches.`,
+    structured: { action: "removed", shipment_ids: params.shipment_ids },
+  };
 }
 
 export async function countBatches(
   params: z.infer<typeof CountBatchesSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams = new URLSearchParams();
   if (params.status) queryParams.set("status", params.status);
 
@@ -161,11 +303,222 @@ export async function countBatches(
   const response = await client.get<{ count: number }>(endpoint);
 
   if (response.error) {
-    return `Error counting batches: ${response.error}`;
+    return toolError(`Error counting batches: ${response.error}`);
   }
 
   const count = response.data?.count ?? 0;
   const statusText = params.status ? ` with status "${params.status}"` : "";
 
-  return `Total batches${statusText}: ${count}`;
+  return {
+    text: `Total batches${statusText}: ${count}`,
+    structured: { count, ...(params.status && { status: params.status }) },
+  };
+}
+
+// Shipments per add_to_batch request
+const ADD_CHUNK_SIZE = 100;
+// Chit Chats ships from Canada, so domestic means a Canadian recipient
+const DOMESTIC_COUNTRY = "CA";
+// Included shipments listed in the text; structured output has them all
+const MAX_LISTED = 50;
+
+export interface SkippedShipment {
+  shipment_id: string;
+  reason: string;
+}
+
+type AutoBatchParams = z.infer<typeof AutoBatchSchema>;
+
+// Why a shipment doesn't belong in the batch, or undefined if it does
+function skipReason(s: Shipment, params: AutoBatchParams): string | undefined {
+  if (s.batch_id) return `already in batch ${s.batch_id}`;
+  if (
+    params.carriers?.length &&
+    !params.carriers.some((c) => c.toLowerCase() === (s.carrier || "").toLowerCase())
+  ) {
+    return s.carrier ? `carrier is ${s.carrier}` : "no carrier selected";
+  }
+  const domestic = s.to_country_code?.toUpperCase() === DOMESTIC_COUNTRY;
+  if (params.destination === "domestic" && !domestic) return `international (${s.to_country_code})`;
+  if (params.destination === "international" && domestic) return "domestic";
+  if (
+    params.order_stores?.length &&
+    !params.order_stores.some((o) => o.toLowerCase() === (s.order_store || "").toLowerCase())
+  ) {
+    return s.order_store ? `order store is ${s.order_store}` : "no order store";
+  }
+  return undefined;
+}
+
+function describeRules(params: AutoBatchParams, status: string): string {
+  const rules = [status];
+  if (params.carriers?.length) rules.push(params.carriers.join("/"));
+  if (params.destination) rules.push(params.destination);
+  if (params.order_stores?.length) rules.push(params.order_stores.join("/"));
+  if (params.from_date || params.to_date) {
+    rules.push(`${params.from_date || "…"} to ${params.to_date || "…"}`);
+  }
+  return rules.join(", ");
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Collect unbatched shipments that match the rules, create a batch for them
+ * and add them in chunks. A dry run stops after showing the plan.
+ */
+export async function autoBatch(params: AutoBatchParams): Promise<ToolResult> {
+  const status = params.status || "ready";
+  const queryParams = new URLSearchParams({ status });
+  if (params.from_date) queryParams.set("from_date", params.from_date);
+  if (params.to_date) queryParams.set("to_date", params.to_date);
+
+  const response = await fetchList<Shipment>("/shipments", queryParams, { all: true });
+  if (response.error) {
+    return toolError(`Error listing shipments: ${response.error}`);
+  }
+
+  const included: Shipment[] = [];
+  const skipped: SkippedShipment[] = [];
+  for (const s of response.items) {
+    const reason = skipReason(s, params);
+    if (reason) {
+      skipped.push({ shipment_id: s.id, reason });
+    } else if (params.max_shipments && included.length >= params.max_shipments) {
+      skipped.push({ shipment_id: s.id, reason: `over the limit of ${params.max_shipments}` });
+    } else {
+      included.push(s);
+    }
+  }
+
+  const rules = describeRules(params, status);
+  const today = new Date().toISOString().slice(0, 10);
+  const description =
+    params.description || `Auto-batch ${today}: ${rules} (${included.length} shipments)`;
+  const ids = included.map((s) => s.id);
+
+  const lines: string[] = [];
+  // Group by reason so a long tail of batched shipments doesn't bury the rest
+  const groupedLines = (title: string, problems: SkippedShipment[]) => {
+    if (problems.length === 0) return;
+    const byReason = new Map<string, string[]>();
+    for (const p of problems) {
+      byReason.set(p.reason, [...(byReason.get(p.reason) || []), p.shipment_id]);
+    }
+    lines.push("", `### ${title} (${problems.length})`);
+    for (const [reason, problemIds] of byReason) {
+      const shown = problemIds.slice(0, 10).join(", ");
+      const more = problemIds.length > 10 ? ` and ${problemIds.length - 10} more` : "";
+      lines.push(`- ${reason}: ${shown}${more}`);
+    }
+  };
+  const includedLines = () => {
+    lines.push("", `### Included (${included.length})`);
+    for (const s of included.slice(0, MAX_LISTED)) {
+      lines.push(
+        `- ${s.id}${s.order_id ? ` (order ${s.order_id})` : ""}: ${s.to_name}, ${s.to_country_code}${
+          s.carrier ? ` via ${s.carrier}` : ""
+        }`
+      );
+    }
+    if (included.length > MAX_LISTED) lines.push(`- …and ${included.length - MAX_LISTED} more`);
+  };
+  const warning = response.warning ? [`**Warning:** ${response.warning}`] : [];
+
+  if (included.length === 0) {
+    lines.push(`No unbatched shipments match the rules (${rules}). No batch was created.`, ...warning);
+    groupedLines("Skipped", skipped);
+    return {
+      text: lines.join("\n"),
+      structured: { rules, included: [], skipped, ...(response.warning && { warning: response.warning }) },
+    };
+  }
+
+  if (params.dry_run) {
+    lines.push(
+      `## Dry Run: Auto-Batch`,
+      "",
+      `**Rules:** ${rules}`,
+      `**Description:** ${description}`,
+      `**Would add:** ${included.length} shipment(s) in ${Math.ceil(included.length / ADD_CHUNK_SIZE)} request(s)`,
+      ...warning
+    );
+    includedLines();
+    groupedLines("Skipped", skipped);
+    lines.push("", "Nothing was changed. Run again without dry_run to create the batch.");
+    return {
+      text: lines.join("\n"),
+      structured: {
+        dry_run: true,
+        rules,
+        description,
+        included: ids,
+        skipped,
+        ...(response.warning && { warning: response.warning }),
+      },
+    };
+  }
+
+  const created = await client.post<{ batch: Batch }>("/batches", { description });
+  const batch = created.data?.batch;
+  if (created.error) {
+    return toolError(`Error creating batch: ${created.error}`);
+  }
+  if (!batch) {
+    return toolError(
+      `The API accepted the batch but returned no ID, so none of the ${ids.length} shipment(s) were added. Check chitchats_list_batches before running this again.`
+    );
+  }
+
+  const added: string[] = [];
+  const failed: SkippedShipment[] = [];
+  for (const shipmentIds of chunk(ids, ADD_CHUNK_SIZE)) {
+    const result = await client.patch("/shipments/add_to_batch", {
+      batch_id: batch.id,
+      shipment_ids: shipmentIds,
+    });
+    if (result.error) {
+      failed.push(...shipmentIds.map((id) => ({ shipment_id: id, reason: result.error as string })));
+    } else {
+      added.push(...shipmentIds);
+    }
+  }
+
+  lines.push(
+    `## Auto-Batch ${batch.id}`,
+    "",
+    `**Rules:** ${rules}`,
+    `**Description:** ${description}`,
+    `**Added:** ${added.length} of ${included.length} shipment(s)`,
+    ...warning
+  );
+  includedLines();
+  if (failed.length > 0) {
+    groupedLines("Failed to Add", failed);
+    if (added.length === 0) {
+      lines.push(
+        "",
+        `Batch ${batch.id} is empty; delete it with chitchats_delete_batch or retry with chitchats_add_to_batch.`
+      );
+    }
+  }
+  groupedLines("Skipped", skipped);
+
+  const structured = {
+    batch,
+    rules,
+    description,
+    added,
+    failed,
+    skipped,
+    ...(response.warning && { warning: response.warning }),
+  };
+  if (added.length === 0) {
+    return { ...toolError(lines.join("\n")), structured };
+  }
+  return { text: lines.join("\n"), structured };
 }
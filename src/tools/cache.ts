@@ -0,0 +1,185 @@
+import type { z } from "zod";
+import type { QueryCacheSchema, SyncCacheSchema } from "../schemas.js";
+import {
+  CACHE_COLLECTIONS,
+  CACHE_MAX_AGE_MINUTES,
+  cacheAgeMinutes,
+  loadCollection,
+  syncCollection,
+  type CacheCollection,
+  type CollectionState,
+  type SyncOutcome,
+} from "../cache.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type Condition = NonNullable<z.infer<typeof QueryCacheSchema>["where"]>[string];
+
+// Fields shown for each record when the query doesn't pick its own
+const SUMMARY_FIELDS: Record<CacheCollection, string[]> = {
+  shipments: ["id", "status", "created_at", "to_name", "to_country_code", "carrier", "purchase_amount"],
+  batches: ["id", "status", "description", "shipment_count", "created_at"],
+  returns: ["id", "status", "reason", "shipment_id", "created_at"],
+};
+
+function describeAge(state: CollectionState): string {
+  const age = cacheAgeMinutes(state);
+  if (age === undefined) return "never synced";
+  if (age < 1) return "synced just now";
+  return age < 120 ? `synced ${age} min ago` : `synced ${Math.floor(age / 60)} h ago`;
+}
+
+function formatOutcome(o: SyncOutcome): string {
+  if (o.error) return `- **${o.collection}:** failed: ${o.error}`;
+  const since = o.from_date ? ` since ${o.from_date}` : "";
+  const line = `- **${o.collection}** (${o.mode}${since}): fetched ${o.fetched} over ${o.pages} page(s), ${o.added} new, ${o.updated} updated, ${o.total} cached`;
+  return o.warning ? `${line}\n  Warning: ${o.warning}` : line;
+}
+
+export async function syncCache(
+  params: z.infer<typeof SyncCacheSchema>
+): Promise<ToolResult> {
+  const collections = params.collections?.length ? params.collections : CACHE_COLLECTIONS;
+
+  const outcomes: SyncOutcome[] = [];
+  for (const collection of collections) {
+    outcomes.push(await syncCollection(collection, params.full));
+  }
+
+  const failed = outcomes.filter((o) => o.error);
+  const text = [`## Cache Sync`, "", ...outcomes.map(formatOutcome)].join("\n");
+
+  return {
+    text,
+    structured: { collections: outcomes },
+    ...(failed.length === outcomes.length && { isError: true }),
+  };
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+// Numbers compare numerically (the API sends amounts as strings), anything
+// else as text, which also orders ISO dates correctly
+function compare(a: unknown, b: unknown): number {
+  const x = asNumber(a);
+  const y = asNumber(b);
+  if (x !== undefined && y !== undefined) return x - y;
+  return String(a ?? "").localeCompare(String(b ?? ""));
+}
+
+function equals(value: unknown, expected: string | number | boolean): boolean {
+  if (typeof expected === "boolean") return value === expected;
+  if (typeof expected === "number") return asNumber(value) === expected;
+  return String(value ?? "").toLowerCase() === expected.toLowerCase();
+}
+
+function matches(value: unknown, condition: Condition): boolean {
+  if (condition === null) return value === null || value === undefined;
+  if (typeof condition !== "object") return equals(value, condition);
+
+  if (value === null || value === undefined) return false;
+  if (condition.gte !== undefined && compare(value, condition.gte) < 0) return false;
+  if (condition.lte !== undefined && compare(value, condition.lte) > 0) return false;
+  if (
+    condition.contains !== undefined &&
+    !String(value).toLowerCase().includes(condition.contains.toLowerCase())
+  ) {
+    return false;
+  }
+  if (condition.in !== undefined && !condition.in.some((option) => equals(value, option))) {
+    return false;
+  }
+  return true;
+}
+
+export async function queryCache(
+  params: z.infer<typeof QueryCacheSchema>
+): Promise<ToolResult> {
+  const collection = params.collection || "shipments";
+  let state = await loadCollection(collection);
+  let sync: SyncOutcome | undefined;
+
+  const age = cacheAgeMinutes(state);
+  const tooOld =
+    params.max_age_minutes !== undefined && (age === undefined || age > params.max_age_minutes);
+  if (params.refresh || tooOld) {
+    sync = await syncCollection(collection);
+    if (sync.error) {
+      return toolError(`Error refreshing the ${collection} cache: ${sync.error}`);
+    }
+    state = await loadCollection(collection);
+  }
+
+  if (!state.synced_at) {
+    return toolError(
+      `The ${collection} cache is empty. Run chitchats_sync_cache first, or pass refresh: true.`
+    );
+  }
+
+  const search = params.search?.toLowerCase();
+  const sortBy = params.sort_by || "created_at";
+  const direction = params.order === "asc" ? 1 : -1;
+
+  const matched = Object.values(state.records)
+    .filter((record) => {
+      const created = String(record.created_at ?? "").slice(0, 10);
+      if (params.from_date && created < params.from_date) return false;
+      if (params.to_date && created > params.to_date) return false;
+      for (const [field, condition] of Object.entries(params.where || {})) {
+        if (!matches(record[field], condition)) return false;
+      }
+      return !search || JSON.stringify(record).toLowerCase().includes(search);
+    })
+    .sort((a, b) => compare(a[sortBy], b[sortBy]) * direction);
+
+  const limited = matched.slice(0, params.limit || 50);
+  const records = params.fields
+    ? limited.map((record) => Object.fromEntries(params.fields!.map((f) => [f, record[f]])))
+    : limited;
+
+  const ageMinutes = cacheAgeMinutes(state)!;
+  const stale = ageMinutes > CACHE_MAX_AGE_MINUTES;
+  const structured = {
+    collection,
+    records,
+    count: records.length,
+    matched: matched.length,
+    cached: Object.keys(state.records).length,
+    synced_at: state.synced_at,
+    age_minutes: ageMinutes,
+    stale,
+    complete: state.complete,
+    ...(sync && { sync }),
+  };
+
+  const lines = [
+    `Found ${matched.length} of ${structured.cached} cached ${collection} (${describeAge(state)})${
+      matched.length > records.length ? `, showing ${records.length}` : ""
+    }`,
+  ];
+  if (stale) {
+    lines.push(
+      `**Warning:** the cache is older than ${CACHE_MAX_AGE_MINUTES} minutes; pass refresh: true for current data.`
+    );
+  }
+  if (!state.complete) {
+    lines.push("**Warning:** the last full sync stopped early, so some older records are missing.");
+  }
+
+  const columns = params.fields || SUMMARY_FIELDS[collection];
+  for (const record of limited) {
+    lines.push(
+      `- ${columns
+        .filter((field) => record[field] !== undefined && record[field] !== null && record[field] !== "")
+        .map((field) => `${field}: ${record[field]}`)
+        .join(" | ")}`
+    );
+  }
+
+  return { text: lines.join("\n"), structured };
+}
@@ -0,0 +1,174 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { z } from "zod";
+import type { ExportShipmentsSchema } from "../schemas.js";
+import { fetchList } from "../pagination.js";
+import { toCsv } from "../csv.js";
+import type { LineItem, Shipment } from "./shipments.js";
+import { resolveToolPath } from "../files.js";
+import { toolError, type ToolResult } from "../results.js";
+
+// Columns for one-row-per-shipment exports, in output order
+const SHIPMENT_COLUMNS: (keyof Shipment)[] = [
+  "id",
+  "status",
+  "created_at",
+  "ship_date",
+  "order_id",
+  "order_store",
+  "batch_id",
+  "to_name",
+  "to_address_1",
+  "to_address_2",
+  "to_city",
+  "to_province_code",
+  "to_postal_code",
+  "to_country_code",
+  "to_phone",
+  "to_email",
+  "package_type",
+  "weight",
+  "weight_unit",
+  "value",
+  "value_currency",
+  "carrier",
+  "postage_type",
+  "carrier_tracking_code",
+  "tracking_url",
+  "purchase_amount",
+  "postage_fee",
+  "insurance_fee",
+  "delivery_fee",
+  "tariff_fee",
+  "broker_conveyance_fee",
+  "shipment_items_fee",
+  "fda_prior_notification_fee",
+  "federal_tax",
+  "federal_tax_label",
+  "provincial_tax",
+  "provincial_tax_label",
+];
+
+// Shipment columns repeated on every line-item row
+const LINE_ITEM_SHIPMENT_COLUMNS: (keyof Shipment)[] = [
+  "id",
+  "status",
+  "created_at",
+  "order_id",
+  "order_store",
+  "to_name",
+  "to_country_code",
+  "carrier",
+  "carrier_tracking_code",
+];
+
+const LINE_ITEM_COLUMNS: (keyof LineItem)[] = [
+  "quantity",
+  "description",
+  "sku_code",
+  "hs_tariff_code",
+  "origin_country",
+  "value_amount",
+  "currency_code",
+  "weight",
+  "weight_unit",
+  "manufacturer_id",
+];
+
+function pick<T extends object>(source: T, keys: (keyof T)[], prefix = ""): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const key of keys) {
+    row[`${prefix}${String(key)}`] = source[key];
+  }
+  return row;
+}
+
+function lineItemRows(s: Shipment): Record<string, unknown>[] {
+  const base = pick(s, LINE_ITEM_SHIPMENT_COLUMNS, "shipment_");
+  const items = s.line_items || [];
+
+  // Keep shipments without line items visible in the export
+  if (items.length === 0) return [base];
+
+  return items.map((item, i) => ({
+    ...base,
+    line_item_number: i + 1,
+    ...pick(item, LINE_ITEM_COLUMNS),
+  }));
+}
+
+export async function exportShipments(
+  params: z.infer<typeof ExportShipmentsSchema>
+): Promise<ToolResult> {
+  const target = await resolveToolPath(params.path);
+  if (target.error !== undefined) {
+    return toolError(`Error exporting to ${params.path}: ${target.error}`);
+  }
+  const path = target.path;
+  const format = params.format || "csv";
+
+  const queryParams = new URLSearchParams();
+  if (params.batch_id) queryParams.set("batch_id", params.batch_id);
+  if (params.status) queryParams.set("status", params.status);
+  if (params.from_date) queryParams.set("from_date", params.from_date);
+  if (params.to_date) queryParams.set("to_date", params.to_date);
+  if (params.search) queryParams.set("search", params.search);
+
+  const response = await fetchList<Shipment>("/shipments", queryParams, {
+    all: true,
+    max_records: params.max_records,
+  });
+
+  if (response.error) {
+    return toolError(`Error exporting shipments: ${response.error}`);
+  }
+
+  const shipments = response.items;
+  const columns = params.line_items
+    ? [
+        ...LINE_ITEM_SHIPMENT_COLUMNS.map((c) => `shipment_${c}`),
+        "line_item_number",
+        ...LINE_ITEM_COLUMNS,
+      ]
+    : SHIPMENT_COLUMNS;
+  const rows = params.line_items
+    ? shipments.flatMap(lineItemRows)
+    : shipments.map((s) => pick(s, SHIPMENT_COLUMNS));
+
+  const contents =
+    format === "csv"
+      ? toCsv(columns, rows)
+      : rows.map((row) => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "");
+
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, contents, { flag: params.overwrite ? "w" : "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      return toolError(`${path} already exists. Pass overwrite: true to replace it.`);
+    }
+    return toolError(
+      `Error writing ${path}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+
+  const lines = [
+    `Exported ${shipments.length} shipment(s)${response.summary} to ${path}`,
+    "",
+    `**Format:** ${format === "csv" ? "CSV" : "JSON Lines"}`,
+    `**Rows:** ${rows.length} (${params.line_items ? "one per line item" : "one per shipment"})`,
+  ];
+  if (response.warning) lines.push("", `**Warning:** ${response.warning}`);
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      path,
+      format,
+      shipments: shipments.length,
+      rows: rows.length,
+      ...(response.pages !== undefined && { pages: response.pages }),
+      ...(response.warning && { warning: response.warning }),
+    },
+  };
+}
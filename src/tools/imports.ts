@@ -0,0 +1,306 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  CreateShipmentFieldsSchema,
+  CreateShipmentSchema,
+  type ImportShipmentsCsvSchema,
+} from "../schemas.js";
+import { parseCsvRecords } from "../csv.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { createShipment, type Shipment } from "./shipments.js";
+import { createBatch, addToBatch } from "./batches.js";
+import { resolveToolPath } from "../files.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type CreateShipmentParams = z.infer<typeof CreateShipmentSchema>;
+
+// "unconfirmed" marks a shipment the API accepted without returning its ID
+export type ImportStatus = "created" | "unconfirmed" | "failed" | "invalid" | "skipped" | "valid";
+
+interface CreationRow {
+  status: ImportStatus;
+  shipment_id?: string;
+  error?: string;
+}
+
+interface ImportRow extends CreationRow {
+  // Spreadsheet row number (the header is row 1)
+  row: number;
+  order_id?: string;
+  name?: string;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  return schema instanceof z.ZodOptional ? unwrap(schema.unwrap()) : schema;
+}
+
+// Turn CSV text into the type each CreateShipmentSchema field expects, so zod
+// sees numbers, booleans and arrays instead of strings.
+function coerceField(schema: z.ZodTypeAny, raw: string): unknown {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodNumber) {
+    const value = Number(raw);
+    return Number.isNaN(value) ? raw : value;
+  }
+  if (inner instanceof z.ZodBoolean) {
+    if (/^(true|yes|y|1)$/i.test(raw)) return true;
+    if (/^(false|no|n|0)$/i.test(raw)) return false;
+    return raw;
+  }
+  if (inner instanceof z.ZodArray) {
+    // Array columns (line_items) hold JSON
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+function findColumn(headers: string[], wanted: string): string | undefined {
+  return (
+    headers.find((h) => h === wanted) ||
+    headers.find((h) => h.toLowerCase() === wanted.toLowerCase())
+  );
+}
+
+// Build one shipment's params from a CSV record using the column map
+function mapRecord(
+  record: Record<string, string>,
+  headers: string[],
+  columnMap: Record<string, string>
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  const shape = CreateShipmentFieldsSchema.shape as Record<string, z.ZodTypeAny>;
+
+  for (const [field, schema] of Object.entries(shape)) {
+    const column = findColumn(headers, columnMap[field] || field);
+    const raw = column !== undefined ? record[column] : undefined;
+    if (raw === undefined || raw === "") continue;
+    params[field] = coerceField(schema, raw);
+  }
+
+  return params;
+}
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`)
+    .join("; ");
+}
+
+const UNCONFIRMED_NOTE = "Created, ID unknown - check chitchats_list_shipments";
+
+/** Record the outcome of creating one import row's shipment. */
+export function recordCreation(row: CreationRow, result: ToolResult): void {
+  if (result.isError) {
+    row.status = "failed";
+    row.error = result.text.replace(/^Error creating shipment: /, "");
+    return;
+  }
+  const created = result.structured?.shipment as Shipment | undefined;
+  if (created?.id) {
+    row.status = "created";
+    row.shipment_id = String(created.id);
+  } else {
+    row.status = "unconfirmed";
+  }
+}
+
+/** The result cell of an import table row. */
+export function rowResult(row: CreationRow): string {
+  if (row.status === "created") return `Created ${row.shipment_id}`;
+  if (row.status === "unconfirmed") return UNCONFIRMED_NOTE;
+  if (row.status === "valid") return "Valid";
+  return `${row.status[0].toUpperCase()}${row.status.slice(1)}${row.error ? `: ${row.error}` : ""}`;
+}
+
+/**
+ * Count what an import created. Shipments without a known ID can't be
+ * batched, and re-running the import would likely duplicate them.
+ */
+export function summarizeCreation(rows: CreationRow[]): {
+  createdIds: string[];
+  unconfirmed: number;
+  failed: number;
+  lines: string[];
+} {
+  const createdIds = rows
+    .filter((r) => r.status === "created")
+    .map((r) => r.shipment_id as string);
+  const unconfirmed = rows.filter((r) => r.status === "unconfirmed").length;
+  const failed = rows.filter((r) => r.status === "failed").length;
+  const lines = [`**Created:** ${createdIds.length}`];
+  if (unconfirmed > 0) {
+    lines.push(
+      `**Created, ID unknown:** ${unconfirmed} (check chitchats_list_shipments before re-running; these are not in any batch)`
+    );
+  }
+  lines.push(`**Failed:** ${failed}`);
+  return { createdIds, unconfirmed, failed, lines };
+}
+
+function formatTable(rows: ImportRow[]): string {
+  const lines = [
+    "| Row | Order | Recipient | Result |",
+    "|-----|-------|-----------|--------|",
+  ];
+  for (const r of rows) {
+    lines.push(
+      `| ${r.row} | ${r.order_id || ""} | ${r.name || ""} | ${rowResult(r).replace(/\|/g, "\\|")} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Put freshly created shipments into a new batch. The summary names the
+ * shipments left out whenever the batch can't be confirmed or filled, so
+ * they can be added by hand.
+ */
+export async function addToNewBatch(
+  description: string,
+  shipmentIds: string[]
+): Promise<{ batchId?: string; summary: string }> {
+  const notAdded = `${shipmentIds.length} shipment(s) were not added: ${shipmentIds.join(", ")}`;
+  const batch = await createBatch({ description });
+  if (batch.isError) {
+    return { summary: `**Batch:** not created (${batch.text}); ${notAdded}` };
+  }
+
+  const record = batch.structured?.batch as { id: string | number } | undefined;
+  if (!record) {
+    // The POST succeeded, so a batch probably exists without us knowing its ID
+    return {
+      summary: `**Batch:** unknown - the API accepted the batch but returned no ID. Check chitchats_list_batches before retrying; ${notAdded}`,
+    };
+  }
+
+  const batchId = String(record.id);
+  const added = await addToBatch({ batch_id: batchId, shipment_ids: shipmentIds });
+  return {
+    batchId,
+    summary: added.isError
+      ? `**Batch:** ${batchId} created, but adding shipments failed (${added.text}); ${notAdded}`
+      : `**Batch:** ${batchId} (${shipmentIds.length} shipment(s) added)`,
+  };
+}
+
+export async function importShipmentsCsv(
+  params: z.infer<typeof ImportShipmentsCsvSchema>
+): Promise<ToolResult> {
+  const target = await resolveToolPath(params.path);
+  if (target.error !== undefined) {
+    return toolError(`Error reading ${params.path}: ${target.error}`);
+  }
+  const path = target.path;
+
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch (err) {
+    return toolError(
+      `Error reading ${path}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+
+  const { headers, records } = parseCsvRecords(contents, params.delimiter);
+  if (records.length === 0) {
+    return toolError(`No data rows found in ${path}.`);
+  }
+
+  const columnMap = params.column_map || {};
+  const missingColumns = Object.entries(columnMap)
+    .filter(([, column]) => !findColumn(headers, column))
+    .map(([field, column]) => `${field} -> "${column}"`);
+  if (missingColumns.length > 0) {
+    return toolError(
+      `Mapped columns not found in ${path}: ${missingColumns.join(", ")}. Available columns: ${headers.join(", ")}`
+    );
+  }
+
+  // Validate every row before creating anything
+  const rows: ImportRow[] = [];
+  const valid: { row: ImportRow; shipment: CreateShipmentParams }[] = [];
+
+  records.forEach((record, i) => {
+    const mapped = mapRecord(record, headers, columnMap);
+    const row: ImportRow = {
+      row: i + 2,
+      status: "valid",
+      order_id: typeof mapped.order_id === "string" ? mapped.order_id : undefined,
+      name: typeof mapped.name === "string" ? mapped.name : undefined,
+    };
+    const parsed = CreateShipmentSchema.safeParse(mapped);
+    if (parsed.success) {
+      valid.push({ row, shipment: parsed.data });
+    } else {
+      row.status = "invalid";
+      row.error = formatIssues(parsed.error);
+    }
+    rows.push(row);
+  });
+
+  const invalidCount = rows.length - valid.length;
+  const header = [
+    `## CSV Import: ${path}`,
+    "",
+    `**Rows:** ${rows.length} (${valid.length} valid, ${invalidCount} invalid)`,
+  ];
+
+  const blocked = invalidCount > 0 && !params.skip_invalid;
+  if (params.dry_run || blocked) {
+    if (blocked) {
+      for (const { row } of valid) row.status = "skipped";
+      header.push(
+        "",
+        "Nothing was created because some rows are invalid. Fix them, or pass skip_invalid to create the valid rows."
+      );
+    } else {
+      header.push("", "Dry run only - no shipments were created.");
+    }
+    const text = `${header.join("\n")}\n\n${formatTable(rows)}`;
+    const structured = {
+      path,
+      total_rows: rows.length,
+      created: 0,
+      failed: 0,
+      invalid: invalidCount,
+      rows,
+    };
+    return blocked ? { ...toolError(text), structured } : { text, structured };
+  }
+
+  await mapWithConcurrency(
+    valid,
+    params.concurrency || DEFAULT_CONCURRENCY,
+    async ({ row, shipment }) => recordCreation(row, await createShipment(shipment))
+  );
+
+  const { createdIds, unconfirmed, failed: failedCount, lines } = summarizeCreation(rows);
+  header.push(...lines);
+
+  let batchId: string | undefined;
+  if (params.batch_description !== undefined && createdIds.length > 0) {
+    const batch = await addToNewBatch(params.batch_description, createdIds);
+    batchId = batch.batchId;
+    header.push(batch.summary);
+  }
+
+  return {
+    text: `${header.join("\n")}\n\n${formatTable(rows)}`,
+    structured: {
+      path,
+      total_rows: rows.length,
+      created: createdIds.length,
+      ...(unconfirmed > 0 && { unconfirmed }),
+      failed: failedCount,
+      invalid: invalidCount,
+      ...(batchId && { batch_id: batchId }),
+      rows,
+    },
+  };
+}
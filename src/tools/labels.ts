@@ -0,0 +1,279 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { PDFDocument } from "pdf-lib";
+import type { z } from "zod";
+import { client } from "../client.js";
+import type { DownloadLabelsSchema, PrintLabelsSchema } from "../schemas.js";
+import { fetchList } from "../pagination.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { enqueuePrintJobs, findPrinter, type PrintJob } from "../printing.js";
+import type { Shipment } from "./shipments.js";
+import { resolveToolPath } from "../files.js";
+import { toolError, type ToolResult } from "../results.js";
+
+export type LabelFormat = "pdf" | "png" | "zpl";
+
+export const LABEL_DIR = process.env.CHITCHATS_LABEL_DIR || "./labels";
+const DOWNLOAD_CONCURRENCY = 4;
+
+export interface LabelTarget {
+  id?: string;
+  shipment_ids?: string[];
+  batch_id?: string;
+}
+
+export function labelUrl(s: Shipment, format: LabelFormat): string | undefined {
+  switch (format) {
+    case "pdf":
+      return s.postage_label_pdf_url;
+    case "png":
+      return s.postage_label_png_url;
+    case "zpl":
+      return s.postage_label_zpl_url;
+  }
+}
+
+// Look up the shipments named by a single ID, a list of IDs, or a batch.
+// IDs that can't be fetched come back in `errors` rather than failing the call.
+export async function resolveShipments(
+  target: LabelTarget
+): Promise<{ shipments: Shipment[]; errors: { shipment_id: string; reason: string }[]; error?: string }> {
+  if (target.batch_id) {
+    const query = new URLSearchParams({ batch_id: target.batch_id });
+    const response = await fetchList<Shipment>("/shipments", query, { all: true });
+    if (response.error) return { shipments: [], errors: [], error: response.error };
+    if (response.warning) return { shipments: response.items, errors: [], error: response.warning };
+    return { shipments: response.items, errors: [] };
+  }
+
+  const ids = target.id ? [target.id] : target.shipment_ids || [];
+  const results = await mapWithConcurrency(ids, DOWNLOAD_CONCURRENCY, async (id) => {
+    const response = await client.get<{ shipment: Shipment }>(`/shipments/${id}`);
+    return { id, shipment: response.data?.shipment, error: response.error };
+  });
+
+  return {
+    shipments: results.flatMap((r) => (r.shipment ? [r.shipment] : [])),
+    errors: results
+      .filter((r) => !r.shipment)
+      .map((r) => ({ shipment_id: r.id, reason: r.error || "not found" })),
+  };
+}
+
+// IDs end up in file names, so anything that could leave the output
+// directory (separators, "..") is replaced
+function fileSafe(id: string | number): string {
+  return String(id).replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+async function mergePdfs(files: Uint8Array[]): Promise<Uint8Array> {
+  const merged = await PDFDocument.create();
+  for (const file of files) {
+    const doc = await PDFDocument.load(file);
+    const pages = await merged.copyPages(doc, doc.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+  return merged.save();
+}
+
+function mergeZpl(files: Uint8Array[]): Uint8Array {
+  const decoder = new TextDecoder();
+  const text = files.map((f) => decoder.decode(f).trim()).join("\n");
+  return new TextEncoder().encode(`${text}\n`);
+}
+
+export async function downloadLabels(
+  params: z.infer<typeof DownloadLabelsSchema>
+): Promise<ToolResult> {
+  const format = params.format || "pdf";
+  const target = await resolveToolPath(params.output_dir || LABEL_DIR);
+  if (target.error !== undefined) {
+    return toolError(`Error saving labels to ${params.output_dir || LABEL_DIR}: ${target.error}`);
+  }
+  const outputDir = target.path;
+
+  const resolved = await resolveShipments(params);
+  if (resolved.shipments.length === 0 && resolved.error) {
+    return toolError(`Error finding shipments: ${resolved.error}`);
+  }
+
+  const missing = [...resolved.errors];
+  const withLabels = resolved.shipments.filter((s) => {
+    if (labelUrl(s, format)) return true;
+    missing.push({
+      shipment_id: s.id,
+      reason: `no ${format.toUpperCase()} label yet (status: ${s.status})`,
+    });
+    return false;
+  });
+
+  try {
+    await mkdir(outputDir, { recursive: true });
+  } catch (err) {
+    return toolError(
+      `Error creating ${outputDir}: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+
+  const downloads = await mapWithConcurrency(withLabels, DOWNLOAD_CONCURRENCY, async (s) => {
+    const response = await client.download(labelUrl(s, format) as string);
+    if (response.error || !response.data) {
+      return { shipment_id: s.id, error: response.error || "empty download" };
+    }
+    const path = join(outputDir, `shipment-${fileSafe(s.id)}.${format}`);
+    try {
+      await writeFile(path, response.data);
+    } catch (err) {
+      return { shipment_id: s.id, error: err instanceof Error ? err.message : "write failed" };
+    }
+    return { shipment_id: s.id, path, data: response.data };
+  });
+
+  const saved = downloads.filter((d) => d.data !== undefined);
+  const failed = downloads
+    .filter((d) => d.error !== undefined)
+    .map((d) => ({ shipment_id: d.shipment_id, reason: d.error as string }));
+
+  let mergedPath: string | undefined;
+  let mergeError: string | undefined;
+  if (format !== "png" && params.merge !== false && saved.length > 1) {
+    const name = params.batch_id ? `batch-${fileSafe(params.batch_id)}` : `labels-${timestamp()}`;
+    mergedPath = join(outputDir, `${name}.${format}`);
+    try {
+      const files = saved.map((d) => d.data as Uint8Array);
+      await writeFile(mergedPath, format === "pdf" ? await mergePdfs(files) : mergeZpl(files));
+    } catch (err) {
+      mergeError = err instanceof Error ? err.message : "Unknown error";
+      mergedPath = undefined;
+    }
+  }
+
+  const lines = [
+    `## Labels (${format.toUpperCase()})`,
+    "",
+    `**Directory:** ${outputDir}`,
+    `**Saved:** ${saved.length}`,
+  ];
+  if (mergedPath) lines.push(`**Print-ready file:** ${mergedPath} (${saved.length} labels)`);
+  if (mergeError) lines.push(`**Merge failed:** ${mergeError}`);
+  if (resolved.error) lines.push(`**Warning:** ${resolved.error}`);
+
+  if (saved.length > 0) {
+    lines.push("", "### Saved");
+    for (const d of saved) lines.push(`- ${d.shipment_id}: ${d.path}`);
+  }
+  if (missing.length > 0) {
+    lines.push("", "### Without Labels");
+    for (const m of missing) lines.push(`- ${m.shipment_id}: ${m.reason}`);
+  }
+  if (failed.length > 0) {
+    lines.push("", "### Download Failed");
+    for (const f of failed) lines.push(`- ${f.shipment_id}: ${f.reason}`);
+  }
+
+  const structured = {
+    format,
+    output_dir: outputDir,
+    files: saved.map((d) => ({ shipment_id: d.shipment_id, path: d.path as string })),
+    ...(mergedPath && { merged_path: mergedPath }),
+    missing,
+    failed,
+  };
+
+  if (saved.length === 0) {
+    return { ...toolError(lines.join("\n")), structured };
+  }
+  return { text: lines.join("\n"), structured };
+}
+
+export async function printLabels(
+  params: z.infer<typeof PrintLabelsSchema>
+): Promise<ToolResult> {
+  const printer = findPrinter(params.printer);
+  if (typeof printer === "string") {
+    return toolError(printer);
+  }
+
+  const resolved = await resolveShipments(params);
+  if (resolved.shipments.length === 0 && resolved.error) {
+    return toolError(`Error finding shipments: ${resolved.error}`);
+  }
+
+  const missing = [...resolved.errors];
+  const withLabels = resolved.shipments.filter((s) => {
+    if (s.postage_label_zpl_url) return true;
+    missing.push({ shipment_id: s.id, reason: `no ZPL label yet (status: ${s.status})` });
+    return false;
+  });
+
+  const downloads = await mapWithConcurrency(withLabels, DOWNLOAD_CONCURRENCY, async (s) => {
+    const response = await client.download(s.postage_label_zpl_url as string);
+    return { shipment_id: s.id, data: response.data, error: response.error };
+  });
+
+  const failed = downloads
+    .filter((d) => !d.data)
+    .map((d) => ({ shipment_id: d.shipment_id, reason: `download failed: ${d.error || "empty"}` }));
+
+  const copies = params.copies || printer.copies;
+  const jobs: PrintJob[] = downloads.flatMap((d) =>
+    d.data
+      ? Array.from({ length: copies }, (_, i) => ({
+          label: copies > 1 ? `${d.shipment_id} (copy ${i + 1})` : d.shipment_id,
+          data: d.data as Uint8Array,
+        }))
+      : []
+  );
+
+  const outcomes = await enqueuePrintJobs(printer, jobs);
+  const sent = outcomes.filter((o) => o.sent);
+  for (const o of outcomes.filter((o) => !o.sent)) {
+    failed.push({ shipment_id: o.label, reason: `print failed after ${o.attempts} attempt(s): ${o.error}` });
+  }
+
+  const lines = [
+    `## Printed to ${printer.name} (${printer.host}:${printer.port})`,
+    "",
+    `**Labels sent:** ${sent.length}${copies > 1 ? ` (${copies} copies each)` : ""}`,
+  ];
+  if (resolved.error) lines.push(`**Warning:** ${resolved.error}`);
+
+  if (sent.length > 0) {
+    lines.push("", "### Sent");
+    for (const o of sent) {
+      const notes = [];
+      if (o.attempts > 1) notes.push(`after ${o.attempts} attempts`);
+      if (o.unconfirmed) notes.push(`unconfirmed: ${o.unconfirmed}; check the printer before reprinting`);
+      lines.push(`- ${o.label}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`);
+    }
+  }
+  if (missing.length > 0) {
+    lines.push("", "### Without Labels");
+    for (const m of missing) lines.push(`- ${m.shipment_id}: ${m.reason}`);
+  }
+  if (failed.length > 0) {
+    lines.push("", "### Failed");
+    for (const f of failed) lines.push(`- ${f.shipment_id}: ${f.reason}`);
+  }
+
+  const structured = {
+    printer: { name: printer.name, host: printer.host, port: printer.port },
+    copies,
+    sent: sent.map((o) => ({
+      label: o.label,
+      attempts: o.attempts,
+      ...(o.unconfirmed && { unconfirmed: o.unconfirmed }),
+    })),
+    missing,
+    failed,
+  };
+
+  if (sent.length === 0) {
+    return { ...toolError(lines.join("\n")), structured };
+  }
+  return { text: lines.join("\n"), structured };
+}
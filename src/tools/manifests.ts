@@ -0,0 +1,544 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { z } from "zod";
+import { client } from "../client.js";
+import { fetchList } from "../pagination.js";
+import { toCsv } from "../csv.js";
+import type { BatchManifestSchema } from "../schemas.js";
+import { batchIssues, type Batch, type BatchIssue } from "./batches.js";
+import { LABEL_DIR } from "./labels.js";
+import { weightKg } from "./reports.js";
+import type { Shipment } from "./shipments.js";
+import { resolveToolPath } from "../files.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type ManifestFormat = "csv" | "markdown" | "html" | "pdf";
+
+interface ManifestItem {
+  sku?: string;
+  description: string;
+  quantity: number;
+}
+
+export interface ManifestRow {
+  shipment_id: string;
+  order_id?: string;
+  recipient: string;
+  destination: string;
+  carrier?: string;
+  postage_type?: string;
+  tracking_code?: string;
+  weight?: number;
+  weight_unit?: string;
+  items: ManifestItem[];
+}
+
+export interface PickListLine {
+  sku?: string;
+  description: string;
+  quantity: number;
+  shipments: number;
+}
+
+interface Manifest {
+  batch: Batch;
+  generated_at: string;
+  rows: ManifestRow[];
+  pick_list: PickListLine[];
+  totals: { shipments: number; items: number; weight_kg: number };
+  issues: BatchIssue[];
+}
+
+const EXTENSIONS: Record<ManifestFormat, string> = {
+  csv: "csv",
+  markdown: "md",
+  html: "html",
+  pdf: "pdf",
+};
+
+function toRow(s: Shipment): ManifestRow {
+  return {
+    shipment_id: s.id,
+    ...(s.order_id && { order_id: s.order_id }),
+    recipient: s.to_name,
+    destination: [s.to_city, s.to_province_code, s.to_postal_code, s.to_country_code]
+      .filter(Boolean)
+      .join(", "),
+    ...(s.carrier && { carrier: s.carrier }),
+    ...(s.postage_type && { postage_type: s.postage_type }),
+    ...(s.carrier_tracking_code && { tracking_code: s.carrier_tracking_code }),
+    ...(s.weight !== undefined && { weight: s.weight, weight_unit: s.weight_unit || "g" }),
+    items: (s.line_items || []).map((item) => ({
+      ...(item.sku_code && { sku: item.sku_code }),
+      description: item.description,
+      quantity: item.quantity,
+    })),
+  };
+}
+
+// Total quantity per SKU across the batch. Items without a SKU are grouped
+// by description.
+function pickList(rows: ManifestRow[]): PickListLine[] {
+  const lines = new Map<string, PickListLine & { ids: Set<string> }>();
+  for (const row of rows) {
+    for (const item of row.items) {
+      const key = item.sku ? `sku:${item.sku}` : `description:${item.description}`;
+      const line = lines.get(key) || {
+        ...(item.sku && { sku: item.sku }),
+        description: item.description,
+        quantity: 0,
+        shipments: 0,
+        ids: new Set<string>(),
+      };
+      line.quantity += item.quantity;
+      line.ids.add(row.shipment_id);
+      lines.set(key, line);
+    }
+  }
+  return [...lines.values()]
+    .map(({ ids, ...line }) => ({ ...line, shipments: ids.size }))
+    .sort((a, b) => (a.sku || a.description).localeCompare(b.sku || b.description));
+}
+
+function itemText(item: ManifestItem): string {
+  return `${item.sku || item.description} × ${item.quantity}`;
+}
+
+function serviceText(row: ManifestRow): string {
+  return [row.carrier, row.postage_type].filter(Boolean).join(" - ");
+}
+
+function weightText(row: ManifestRow): string {
+  return row.weight !== undefined ? `${row.weight} ${row.weight_unit}` : "";
+}
+
+function renderCsv(manifest: Manifest): string {
+  const columns = [
+    "shipment_id",
+    "order_id",
+    "recipient",
+    "destination",
+    "carrier",
+    "postage_type",
+    "tracking_code",
+    "weight",
+    "weight_unit",
+    "item_count",
+    "items",
+  ];
+  const rows = manifest.rows.map((row) => ({
+    ...row,
+    item_count: row.items.reduce((sum, item) => sum + item.quantity, 0),
+    items: row.items.map(itemText).join("; "),
+  }));
+  return toCsv(columns, rows);
+}
+
+function renderPickListCsv(manifest: Manifest): string {
+  return toCsv(
+    ["sku", "description", "quantity", "shipments"],
+    manifest.pick_list.map((line) => ({ ...line }))
+  );
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function renderMarkdown(manifest: Manifest): string {
+  const { batch, totals } = manifest;
+  const lines = [
+    `# Batch ${batch.id} Manifest`,
+    "",
+    ...(batch.description ? [`**Description:** ${batch.description}`] : []),
+    `**Status:** ${batch.status}`,
+    `**Generated:** ${manifest.generated_at}`,
+    `**Parcels:** ${totals.shipments} | **Items:** ${totals.items} | **Weight:** ${totals.weight_kg} kg`,
+    "",
+    "| ✓ | # | Shipment | Order | Recipient | Service | Tracking | Weight | Items |",
+    "|---|---|----------|-------|-----------|---------|----------|--------|-------|",
+  ];
+  manifest.rows.forEach((row, i) => {
+    const cells = [
+      "☐",
+      String(i + 1),
+      row.shipment_id,
+      row.order_id || "",
+      `${row.recipient}, ${row.destination}`,
+      serviceText(row),
+      row.tracking_code || "",
+      weightText(row),
+      row.items.map(itemText).join("; "),
+    ];
+    lines.push(`| ${cells.map(markdownCell).join(" | ")} |`);
+  });
+
+  if (manifest.pick_list.length > 0) {
+    lines.push("", "## Pick List", "", "| ✓ | SKU | Description | Quantity | Parcels |");
+    lines.push("|---|-----|-------------|----------|---------|");
+    for (const line of manifest.pick_list) {
+      const cells = ["☐", line.sku || "", line.description, String(line.quantity), String(line.shipments)];
+      lines.push(`| ${cells.map(markdownCell).join(" | ")} |`);
+    }
+  }
+
+  if (manifest.issues.length > 0) {
+    lines.push("", "## Not Ready", "");
+    for (const issue of manifest.issues) lines.push(`- ${issue.shipment_id}: ${issue.detail}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderHtml(manifest: Manifest): string {
+  const { batch, totals } = manifest;
+  const cell = (value: string) => `<td>${escapeHtml(value)}</td>`;
+  const rows = manifest.rows.map(
+    (row, i) =>
+      `<tr><td class="box"></td>${cell(String(i + 1))}${cell(row.shipment_id)}${cell(row.order_id || "")}<td>${escapeHtml(row.recipient)}<br>${escapeHtml(row.destination)}</td>${cell(serviceText(row))}${cell(row.tracking_code || "")}${cell(weightText(row))}<td>${row.items.map((item) => escapeHtml(itemText(item))).join("<br>")}</td></tr>`
+  );
+  const pickRows = manifest.pick_list.map(
+    (line) =>
+      `<tr><td class="box"></td>${cell(line.sku || "")}${cell(line.description)}${cell(String(line.quantity))}${cell(String(line.shipments))}</tr>`
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Batch ${escapeHtml(batch.id)} Manifest</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11px; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  p { margin: 2px 0; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  tr { page-break-inside: avoid; }
+  td.box { width: 14px; }
+  @page { size: landscape; margin: 12mm; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Batch ${escapeHtml(batch.id)} Manifest</h1>
+${batch.description ? `<p><strong>Description:</strong> ${escapeHtml(batch.description)}</p>\n` : ""}<p><strong>Status:</strong> ${escapeHtml(batch.status)} &nbsp; <strong>Generated:</strong> ${escapeHtml(manifest.generated_at)}</p>
+<p><strong>Parcels:</strong> ${totals.shipments} &nbsp; <strong>Items:</strong> ${totals.items} &nbsp; <strong>Weight:</strong> ${totals.weight_kg} kg</p>
+<table>
+<thead><tr><th>✓</th><th>#</th><th>Shipment</th><th>Order</th><th>Recipient</th><th>Service</th><th>Tracking</th><th>Weight</th><th>Items</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+${
+  pickRows.length > 0
+    ? `<h2>Pick List</h2>
+<table>
+<thead><tr><th>✓</th><th>SKU</th><th>Description</th><th>Quantity</th><th>Parcels</th></tr></thead>
+<tbody>
+${pickRows.join("\n")}
+</tbody>
+</table>
+`
+    : ""
+}${
+  manifest.issues.length > 0
+    ? `<h2>Not Ready</h2>
+<ul>
+${manifest.issues.map((issue) => `<li>${escapeHtml(`${issue.shipment_id}: ${issue.detail}`)}</li>`).join("\n")}
+</ul>
+`
+    : ""
+}</body>
+</html>
+`;
+}
+
+// The standard PDF fonts only cover WinAnsi (roughly Latin-1). Strip accents
+// from anything else and fall back to "?".
+function pdfSafe(text: string): string {
+  return [...text]
+    .map((char) => {
+      if (/[\x20-\x7e\xa0-\xff×…]/.test(char)) return char;
+      const plain = char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      return /^[\x20-\x7e]+$/.test(plain) ? plain : "?";
+    })
+    .join("");
+}
+
+function fit(text: string, font: PDFFont, size: number, width: number): string {
+  let value = pdfSafe(text);
+  if (font.widthOfTextAtSize(value, size) <= width) return value;
+  while (value.length > 0 && font.widthOfTextAtSize(`${value}…`, size) > width) {
+    value = value.slice(0, -1);
+  }
+  return `${value}…`;
+}
+
+interface PdfColumn {
+  title: string;
+  width: number;
+  box?: boolean;
+}
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+
+async function renderPdf(manifest: Manifest): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (value: string, x: number, size = FONT_SIZE, face = font) => {
+    page.drawText(pdfSafe(value), { x, y, size, font: face });
+  };
+
+  const drawHeader = (columns: PdfColumn[]) => {
+    let x = MARGIN;
+    y -= LINE_HEIGHT;
+    for (const column of columns) {
+      if (!column.box) text(fit(column.title, bold, FONT_SIZE, column.width - 4), x + 2, FONT_SIZE, bold);
+      x += column.width;
+    }
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.75,
+    });
+  };
+
+  const drawTable = (columns: PdfColumn[], rows: string[][][]) => {
+    drawHeader(columns);
+    for (const cells of rows) {
+      const height = Math.max(1, ...cells.map((lines) => lines.length)) * LINE_HEIGHT + 4;
+      if (y - height < MARGIN) {
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        drawHeader(columns);
+      }
+      const top = y;
+      let x = MARGIN;
+      columns.forEach((column, i) => {
+        if (column.box) {
+          page.drawRectangle({
+            x: x + 2,
+            y: top - 11,
+            width: 8,
+            height: 8,
+            borderWidth: 0.75,
+            borderColor: rgb(0, 0, 0),
+          });
+        } else {
+          y = top;
+          for (const line of cells[i] || []) {
+            y -= LINE_HEIGHT;
+            text(fit(line, font, FONT_SIZE, column.width - 4), x + 2);
+          }
+        }
+        x += column.width;
+      });
+      y = top - height;
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: PAGE_WIDTH - MARGIN, y },
+        thickness: 0.25,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+    }
+  };
+
+  const { batch, totals } = manifest;
+  y -= 16;
+  text(`Batch ${batch.id} Manifest`, MARGIN, 16, bold);
+  y -= 14;
+  text(
+    `Status: ${batch.status}    Generated: ${manifest.generated_at}${batch.description ? `    ${batch.description}` : ""}`,
+    MARGIN
+  );
+  y -= 12;
+  text(`Parcels: ${totals.shipments}    Items: ${totals.items}    Weight: ${totals.weight_kg} kg`, MARGIN);
+  y -= 8;
+
+  drawTable(
+    [
+      { title: "", width: 16, box: true },
+      { title: "#", width: 22 },
+      { title: "Shipment", width: 80 },
+      { title: "Order", width: 70 },
+      { title: "Recipient", width: 150 },
+      { title: "Service", width: 100 },
+      { title: "Tracking", width: 112 },
+      { title: "Weight", width: 50 },
+      { title: "Items", width: 120 },
+    ],
+    manifest.rows.map((row, i) => [
+      [],
+      [String(i + 1)],
+      [row.shipment_id],
+      [row.order_id || ""],
+      [row.recipient, row.destination],
+      [serviceText(row)],
+      [row.tracking_code || ""],
+      [weightText(row)],
+      row.items.map(itemText),
+    ])
+  );
+
+  if (manifest.pick_list.length > 0) {
+    y -= 24;
+    if (y < MARGIN + 60) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN - 12;
+    }
+    text("Pick List", MARGIN, 12, bold);
+    y -= 4;
+    drawTable(
+      [
+        { title: "", width: 16, box: true },
+        { title: "SKU", width: 150 },
+        { title: "Description", width: 434 },
+        { title: "Quantity", width: 60 },
+        { title: "Parcels", width: 60 },
+      ],
+      manifest.pick_list.map((line) => [
+        [],
+        [line.sku || ""],
+        [line.description],
+        [String(line.quantity)],
+        [String(line.shipments)],
+      ])
+    );
+  }
+
+  return doc.save();
+}
+
+async function render(manifest: Manifest, format: ManifestFormat): Promise<string | Uint8Array> {
+  switch (format) {
+    case "csv":
+      return renderCsv(manifest);
+    case "markdown":
+      return renderMarkdown(manifest);
+    case "html":
+      return renderHtml(manifest);
+    case "pdf":
+      return renderPdf(manifest);
+  }
+}
+
+export async function batchManifest(
+  params: z.infer<typeof BatchManifestSchema>
+): Promise<ToolResult> {
+  const format = params.format || "markdown";
+  const target = await resolveToolPath(params.output_dir || LABEL_DIR);
+  if (target.error !== undefined) {
+    return toolError(`Error saving manifest to ${params.output_dir || LABEL_DIR}: ${target.error}`);
+  }
+  const outputDir = target.path;
+
+  const batchResponse = await client.get<{ batch: Batch }>(`/batches/${params.batch_id}`);
+  if (batchResponse.error) {
+    return toolError(`Error getting batch: ${batchResponse.error}`);
+  }
+  const batch = batchResponse.data?.batch;
+  if (!batch) {
+    return toolError(`Batch ${params.batch_id} not found.`);
+  }
+
+  const response = await fetchList<Shipment>(
+    "/shipments",
+    new URLSearchParams({ batch_id: batch.id }),
+    { all: true }
+  );
+  if (response.error) {
+    return toolError(`Error listing the batch's shipments: ${response.error}`);
+  }
+  if (response.items.length === 0) {
+    return toolError(`Batch ${batch.id} has no shipments.`);
+  }
+
+  const shipments = response.items;
+  const rows = shipments.map(toRow);
+  const manifest: Manifest = {
+    batch,
+    generated_at: new Date().toISOString().replace(/\.\d+Z$/, "Z"),
+    rows,
+    pick_list: params.pick_list === false ? [] : pickList(rows),
+    totals: {
+      shipments: rows.length,
+      items: rows.reduce((sum, row) => sum + row.items.reduce((n, item) => n + item.quantity, 0), 0),
+      weight_kg:
+        Math.round(shipments.reduce((sum, s) => sum + (weightKg(s) ?? 0), 0) * 1000) / 1000,
+    },
+    issues: batchIssues(shipments),
+  };
+
+  const path = join(outputDir, `batch-${batch.id}-manifest.${EXTENSIONS[format]}`);
+  const pickListPath =
+    format === "csv" && manifest.pick_list.length > 0
+      ? join(outputDir, `batch-${batch.id}-pick-list.csv`)
+      : undefined;
+
+  let contents: string | Uint8Array;
+  try {
+    contents = await render(manifest, format);
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(path, contents);
+    if (pickListPath) await writeFile(pickListPath, renderPickListCsv(manifest));
+  } catch (err) {
+    return toolError(
+      `Error writing the manifest: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+
+  const lines = [
+    `## Batch ${batch.id} Manifest`,
+    "",
+    `**File:** ${path}`,
+  ];
+  if (pickListPath) lines.push(`**Pick List:** ${pickListPath}`);
+  lines.push(
+    `**Parcels:** ${manifest.totals.shipments}`,
+    `**Items:** ${manifest.totals.items}`,
+    `**Weight:** ${manifest.totals.weight_kg} kg`
+  );
+  if (manifest.issues.length > 0) {
+    lines.push(
+      `**Warning:** ${manifest.issues.length} shipment(s) are not ready for drop-off; run chitchats_get_batch for details.`
+    );
+  }
+  if (response.warning) lines.push(`**Warning:** ${response.warning}`);
+  // Markdown is small enough to show inline for a quick check
+  if (format === "markdown") lines.push("", "---", "", contents as string);
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      batch_id: batch.id,
+      format,
+      path,
+      ...(pickListPath && { pick_list_path: pickListPath }),
+      shipments: rows,
+      pick_list: manifest.pick_list,
+      totals: manifest.totals,
+      issues: manifest.issues,
+      ...(response.warning && { warning: response.warning }),
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import { client } from "../client.js";
+import type { z } from "zod";
+import type { BuyBestRateSchema } from "../schemas.js";
+import type { Rate, Shipment } from "./shipments.js";
+import {
+  guardedBuyPostage,
+  previewSpend,
+  rateCost,
+  releaseSpend,
+  reserveSpend,
+} from "../guards.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type RatePolicy = Omit<z.infer<typeof BuyBestRateSchema>, "id" | "dry_run">;
+
+interface RankedRate {
+  rate: Rate;
+  cost: number;
+  // [fastest, slowest] days parsed from delivery_time_description
+  days: [number, number];
+}
+
+interface RateSelection {
+  winner?: RankedRate;
+  runnersUp: RankedRate[];
+  excluded: { rate: Rate; reason: string }[];
+}
+
+// "2-5 business days", "1 business day", "7 to 14 days" -> [2, 5], [1, 1], [7, 14]
+function deliveryDays(description?: string): [number, number] {
+  const numbers = (description || "").match(/\d+/g)?.map(Number) || [];
+  if (numbers.length === 0) return [Infinity, Infinity];
+  return [Math.min(...numbers), Math.max(...numbers)];
+}
+
+function isTracked(rate: Rate): boolean {
+  const tracking = rate.tracking_type_description;
+  return Boolean(tracking) && !/\b(no|not|un)[\s-]?track|none/i.test(tracking || "");
+}
+
+function exclusionReason(rate: Rate, policy: RatePolicy): string | undefined {
+  const cost = rateCost(rate);
+  const excludedCarriers = (policy.exclude_carriers || []).map((c) => c.toLowerCase());
+
+  if (!Number.isFinite(cost)) return "no price quoted";
+  if (excludedCarriers.includes(rate.postage_carrier_type.toLowerCase())) {
+    return `carrier ${rate.postage_carrier_type} is excluded`;
+  }
+  if (policy.tracked_only && !isTracked(rate)) return "not tracked";
+  if (policy.require_signature && !rate.signature_confirmation_description) {
+    return "no signature confirmation";
+  }
+  if (policy.require_insurance && !rate.is_insured) return "not insured";
+  if (policy.max_price !== undefined && cost > policy.max_price) {
+    return `$${cost.toFixed(2)} is over the $${policy.max_price.toFixed(2)} limit`;
+  }
+  return undefined;
+}
+
+export function selectRate(rates: Rate[], policy: RatePolicy): RateSelection {
+  const eligible: RankedRate[] = [];
+  const excluded: RateSelection["excluded"] = [];
+
+  for (const rate of rates) {
+    const reason = exclusionReason(rate, policy);
+    if (reason) {
+      excluded.push({ rate, reason });
+    } else {
+      eligible.push({ rate, cost: rateCost(rate), days: deliveryDays(rate.delivery_time_description) });
+    }
+  }
+
+  // Fastest ranks by worst-case days, then best-case days; cost breaks ties
+  eligible.sort((a, b) =>
+    policy.policy === "fastest"
+      ? a.days[1] - b.days[1] || a.days[0] - b.days[0] || a.cost - b.cost
+      : a.cost - b.cost || a.days[1] - b.days[1]
+  );
+
+  return { winner: eligible[0], runnersUp: eligible.slice(1), excluded };
+}
+
+function describeRate(r: RankedRate): string {
+  const delivery = r.rate.delivery_time_description
+    ? `, ${r.rate.delivery_time_description}`
+    : "";
+  return `${r.rate.postage_description} (${r.rate.postage_type}) - $${r.cost.toFixed(2)}${delivery}`;
+}
+
+// Why the winner beat a runner-up, in the terms of the active policy
+function comparison(winner: RankedRate, other: RankedRate, policy: RatePolicy): string {
+  const saving = other.cost - winner.cost;
+  if (policy.policy === "fastest") {
+    if (other.days[1] > winner.days[1] || other.days[0] > winner.days[0]) {
+      return Number.isFinite(other.days[1])
+        ? `slower (up to ${other.days[1]} days)`
+        : "no delivery estimate";
+    }
+    return `same speed, $${saving.toFixed(2)} more`;
+  }
+  if (saving > 0) return `$${saving.toFixed(2)} more`;
+  return "same price, slower or equal delivery";
+}
+
+export async function buyBestRate(
+  params: z.infer<typeof BuyBestRateSchema>
+): Promise<ToolResult> {
+  const response = await client.get<{ shipment: Shipment }>(
+    `/shipments/${params.id}`
+  );
+
+  if (response.error) {
+    return toolError(`Error getting shipment rates: ${response.error}`);
+  }
+
+  const s = response.data?.shipment;
+  if (!s) {
+    return toolError(`Shipment ${params.id} not found.`);
+  }
+
+  if (!s.rates || s.rates.length === 0) {
+    return toolError(
+      `No rates available for shipment ${params.id}. The shipment may already have postage purchased.`
+    );
+  }
+
+  const policy = params.policy || "cheapest";
+  const { winner, runnersUp, excluded } = selectRate(s.rates, params);
+
+  const lines = [`## Best Rate for Shipment ${s.id}`, "", `**Policy:** ${policy}`];
+  const filters = [];
+  if (params.tracked_only) filters.push("tracked only");
+  if (params.require_signature) filters.push("signature");
+  if (params.require_insurance) filters.push("insured");
+  if (params.max_price !== undefined) filters.push(`max $${params.max_price.toFixed(2)}`);
+  if (params.exclude_carriers?.length) filters.push(`excluding ${params.exclude_carriers.join(", ")}`);
+  if (filters.length > 0) lines.push(`**Filters:** ${filters.join(", ")}`);
+
+  const excludedSummary = excluded.map((e) => ({
+    postage_type: e.rate.postage_type,
+    reason: e.reason,
+  }));
+
+  if (!winner) {
+    lines.push("", "No rate satisfies this policy:");
+    for (const e of excluded) lines.push(`- ${e.rate.postage_description}: ${e.reason}`);
+    return toolError(lines.join("\n"));
+  }
+
+  const reason =
+    policy === "fastest"
+      ? `fastest eligible delivery${Number.isFinite(winner.days[1]) ? ` (up to ${winner.days[1]} days)` : ""}`
+      : "lowest eligible price";
+
+  lines.push("", `**Selected:** ${describeRate(winner)}`, `**Why:** ${reason}`);
+
+  const shownRunnersUp = runnersUp.slice(0, 3);
+  if (shownRunnersUp.length > 0) {
+    lines.push("", "### Runners-up");
+    for (const r of shownRunnersUp) {
+      lines.push(`- ${describeRate(r)}: ${comparison(winner, r, params)}`);
+    }
+  }
+
+  if (excluded.length > 0) {
+    lines.push("", "### Excluded");
+    for (const e of excluded) lines.push(`- ${e.rate.postage_description}: ${e.reason}`);
+  }
+
+  const structured: Record<string, unknown> = {
+    id: s.id,
+    action: params.dry_run ? "best_rate_preview" : "best_rate_purchased",
+    selected: winner.rate,
+    reason,
+    runners_up: shownRunnersUp.map((r) => ({
+      rate: r.rate,
+      reason: comparison(winner, r, params),
+    })),
+    excluded: excludedSummary,
+  };
+
+  // Goes through the same spend caps as chitchats_buy_postage
+  if (params.dry_run) {
+    const refusal = await previewSpend(winner.cost);
+    lines.push(
+      "",
+      refusal
+        ? `**Would be refused:** ${refusal}`
+        : "Dry run only - the rate was not set and no postage was purchased."
+    );
+    return {
+      text: lines.join("\n"),
+      structured: { ...structured, allowed: !refusal, ...(refusal && { refusal }) },
+    };
+  }
+
+  // Hold the winner's cost before switching rates, so a refused purchase
+  // leaves the shipment's rate alone
+  const hold = await reserveSpend(winner.cost);
+  if (typeof hold === "string") {
+    return toolError(`${lines.join("\n")}\n\n${hold}`);
+  }
+
+  // Select the winning rate on the shipment so the purchase charges it
+  const switched = s.postage_type !== winner.rate.postage_type;
+  if (switched) {
+    const setResponse = await client.patch<{ shipment: Shipment }>(
+      `/shipments/${s.id}/refresh`,
+      { postage_type: winner.rate.postage_type }
+    );
+    if (setResponse.error) {
+      releaseSpend(hold);
+      return toolError(
+        `${lines.join("\n")}\n\nError selecting rate ${winner.rate.postage_type}: ${setResponse.error}`
+      );
+    }
+  }
+
+  const purchase = await guardedBuyPostage({ id: s.id }, hold);
+  lines.push("", "### Purchase", purchase.text);
+
+  if (purchase.isError) {
+    // Put back the rate the shipment had, so a failed purchase changes nothing
+    if (switched && s.postage_type) {
+      const restore = await client.patch<{ shipment: Shipment }>(
+        `/shipments/${s.id}/refresh`,
+        { postage_type: s.postage_type }
+      );
+      lines.push(
+        "",
+        restore.error
+          ? `**Warning:** the shipment's rate is now ${winner.rate.postage_type}; restoring ${s.postage_type} failed: ${restore.error}`
+          : `The shipment's rate was restored to ${s.postage_type}.`
+      );
+    } else if (switched) {
+      lines.push("", `**Note:** the shipment's rate is now ${winner.rate.postage_type}.`);
+    }
+    return toolError(lines.join("\n"));
+  }
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      ...structured,
+      ...(purchase.structured?.shipment !== undefined && {
+        shipment: purchase.structured.shipment,
+      }),
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import type { z } from "zod";
+import type { CostReportSchema } from "../schemas.js";
+import { fetchList } from "../pagination.js";
+import type { Shipment } from "./shipments.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type GroupBy = NonNullable<z.infer<typeof CostReportSchema>["group_by"]>;
+
+interface CostTotals {
+  shipments: number;
+  postage_fee: number;
+  insurance_fee: number;
+  tariff_fee: number;
+  broker_conveyance_fee: number;
+  // delivery, shipment items and FDA prior notification fees
+  other_fees: number;
+  taxes: number;
+  total: number;
+  // Only shipments with a known weight count towards the per-kg average
+  weighed_shipments: number;
+  weighed_total: number;
+  weight_kg: number;
+}
+
+interface CostSummary {
+  shipments: number;
+  postage_fee: number;
+  insurance_fee: number;
+  tariff_fee: number;
+  broker_conveyance_fee: number;
+  other_fees: number;
+  taxes: number;
+  total: number;
+  weight_kg: number;
+  avg_per_shipment: number | null;
+  avg_per_kg: number | null;
+}
+
+const KG_PER_UNIT: Record<string, number> = {
+  g: 0.001,
+  kg: 1,
+  oz: 0.0283495,
+  lb: 0.453592,
+};
+
+export function amount(value?: string | number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function weightKg(s: Shipment): number | undefined {
+  if (!s.weight) return undefined;
+  const factor = KG_PER_UNIT[(s.weight_unit || "g").toLowerCase()];
+  return factor ? s.weight * factor : undefined;
+}
+
+function groupKey(s: Shipment, groupBy: GroupBy): string {
+  switch (groupBy) {
+    case "month":
+      return (s.created_at || "").slice(0, 7) || "unknown";
+    case "carrier":
+      return s.carrier || "unknown";
+    case "postage_type":
+      return s.postage_type || "unknown";
+    case "country":
+      return s.to_country_code || "unknown";
+    case "order_store":
+      return s.order_store || "none";
+  }
+}
+
+function emptyTotals(): CostTotals {
+  return {
+    shipments: 0,
+    postage_fee: 0,
+    insurance_fee: 0,
+    tariff_fee: 0,
+    broker_conveyance_fee: 0,
+    other_fees: 0,
+    taxes: 0,
+    total: 0,
+    weighed_shipments: 0,
+    weighed_total: 0,
+    weight_kg: 0,
+  };
+}
+
+function addShipment(totals: CostTotals, s: Shipment): void {
+  const total = amount(s.purchase_amount);
+  totals.shipments++;
+  totals.postage_fee += amount(s.postage_fee);
+  totals.insurance_fee += amount(s.insurance_fee);
+  totals.tariff_fee += amount(s.tariff_fee);
+  totals.broker_conveyance_fee += amount(s.broker_conveyance_fee);
+  totals.other_fees +=
+    amount(s.delivery_fee) +
+    amount(s.shipment_items_fee) +
+    amount(s.fda_prior_notification_fee);
+  totals.taxes += amount(s.federal_tax) + amount(s.provincial_tax);
+  totals.total += total;
+
+  const kg = weightKg(s);
+  if (kg !== undefined) {
+    totals.weighed_shipments++;
+    totals.weighed_total += total;
+    totals.weight_kg += kg;
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function summarize(totals: CostTotals): CostSummary {
+  return {
+    shipments: totals.shipments,
+    postage_fee: round(totals.postage_fee),
+    insurance_fee: round(totals.insurance_fee),
+    tariff_fee: round(totals.tariff_fee),
+    broker_conveyance_fee: round(totals.broker_conveyance_fee),
+    other_fees: round(totals.other_fees),
+    taxes: round(totals.taxes),
+    total: round(totals.total),
+    weight_kg: Math.round(totals.weight_kg * 1000) / 1000,
+    avg_per_shipment: totals.shipments > 0 ? round(totals.total / totals.shipments) : null,
+    avg_per_kg: totals.weight_kg > 0 ? round(totals.weighed_total / totals.weight_kg) : null,
+  };
+}
+
+function money(n: number | null): string {
+  return n === null ? "-" : `$${n.toFixed(2)}`;
+}
+
+function tableRow(label: string, t: CostSummary): string {
+  return `| ${label} | ${t.shipments} | ${money(t.postage_fee)} | ${money(t.insurance_fee)} | ${money(t.tariff_fee)} | ${money(t.broker_conveyance_fee)} | ${money(t.other_fees)} | ${money(t.taxes)} | ${money(t.total)} | ${money(t.avg_per_shipment)} | ${money(t.avg_per_kg)} |`;
+}
+
+export async function costReport(
+  params: z.infer<typeof CostReportSchema>
+): Promise<ToolResult> {
+  const groupBy = params.group_by || "month";
+
+  const queryParams = new URLSearchParams();
+  if (params.from_date) queryParams.set("from_date", params.from_date);
+  if (params.to_date) queryParams.set("to_date", params.to_date);
+  if (params.status) queryParams.set("status", params.status);
+  if (params.batch_id) queryParams.set("batch_id", params.batch_id);
+
+  const response = await fetchList<Shipment>("/shipments", queryParams, {
+    all: true,
+    max_records: params.max_records,
+  });
+
+  if (response.error) {
+    return toolError(`Error building cost report: ${response.error}`);
+  }
+
+  // Only shipments with purchased postage have costs to report
+  const paid = response.items.filter((s) => amount(s.purchase_amount) > 0);
+  const unpaid = response.items.length - paid.length;
+
+  const overall = emptyTotals();
+  const groups = new Map<string, CostTotals>();
+  for (const s of paid) {
+    const key = groupKey(s, groupBy);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addShipment(groups.get(key) as CostTotals, s);
+    addShipment(overall, s);
+  }
+
+  // Months read best chronologically; everything else by spend
+  const sortedGroups = [...groups.entries()]
+    .sort(([a, ta], [b, tb]) =>
+      groupBy === "month" ? a.localeCompare(b) : tb.total - ta.total
+    )
+    .map(([key, totals]) => ({ key, ...summarize(totals) }));
+  const summary = summarize(overall);
+
+  const range =
+    params.from_date || params.to_date
+      ? `${params.from_date || "start"} to ${params.to_date || "today"}`
+      : "all dates";
+
+  const lines = [
+    `## Shipping Cost Report (${range})`,
+    "",
+    `**Grouped by:** ${groupBy}`,
+    `**Paid Shipments:** ${paid.length}${unpaid > 0 ? ` (${unpaid} unpaid shipment(s) excluded)` : ""}`,
+    `**Total Spend:** ${money(summary.total)}`,
+  ];
+
+  if (paid.length > 0) {
+    lines.push(
+      "",
+      `| ${groupBy} | Shipments | Postage | Insurance | Tariff | Broker | Other | Taxes | Total | Avg/Shipment | Avg/kg |`,
+      "|---|---|---|---|---|---|---|---|---|---|---|",
+      ...sortedGroups.map((g) => tableRow(g.key, g)),
+      tableRow("**Total**", summary)
+    );
+    if (overall.weighed_shipments < overall.shipments) {
+      lines.push(
+        "",
+        `Avg/kg uses the ${overall.weighed_shipments} shipment(s) with a recorded weight.`
+      );
+    }
+  }
+
+  if (response.warning) lines.push("", `**Warning:** ${response.warning}`);
+
+  return {
+    text: lines.join("\n"),
+    structured: {
+      group_by: groupBy,
+      ...(params.from_date && { from_date: params.from_date }),
+      ...(params.to_date && { to_date: params.to_date }),
+      shipments: paid.length,
+      unpaid_excluded: unpaid,
+      totals: summary,
+      groups: sortedGroups,
+      ...(response.warning && { warning: response.warning }),
+    },
+  };
+}
@@ -1,8 +1,12 @@
 import { client } from "../client.js";
+import { fetchList } from "../pagination.js";
+import { toolError, type ToolResult } from "../results.js";
 import type { z } from "zod";
-import type { ListReturnsSchema } from "../schemas.js";
+import type { GetReturnSchema, ListReturnsSchema } from "../schemas.js";
+import { orderShipmentIds, type Shipment } from "./shipments.js";
 
-interface Return {
+// The fields the returns list documents; records are passed through whole
+export interface Return {
   id: string;
   status: string;
   reason?: string;
@@ -10,40 +14,137 @@ interface Return {
   created_at: string;
 }
 
+function formatReturn(r: Return): string {
+  const lines = [`ID: ${r.id}`, `Status: ${r.status}`];
+
+  if (r.reason) lines.push(`Reason: ${r.reason}`);
+  if (r.shipment_id) lines.push(`Shipment ID: ${r.shipment_id}`);
+  lines.push(`Created: ${r.created_at}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Find one return by ID. The API only lists returns, so this walks the list
+ * until the page holding it.
+ */
+export async function findReturn(id: string): Promise<Return | undefined | string> {
+  const matches = (r: Return) => String(r.id) === id;
+  const response = await client.getAllPages<Return>("/returns", new URLSearchParams(), {
+    find: matches,
+  });
+  const found = response.data.find(matches);
+  if (found) return found;
+  if (response.stoppedBy === "error") return response.error;
+  if (response.stoppedBy === "page_ceiling") {
+    return `not in the first ${response.pages} page(s) of returns (CHITCHATS_MAX_PAGES)`;
+  }
+  return undefined;
+}
+
 export async function listReturns(
   params: z.infer<typeof ListReturnsSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams = new URLSearchParams();
 
-  if (params.limit) queryParams.set("limit", params.limit.toString());
-  if (params.page) queryParams.set("page", params.page.toString());
   if (params.status) queryParams.set("status", params.status);
   if (params.reason) queryParams.set("reason", params.reason);
 
-  const query = queryParams.toString();
-  const endpoint = `/returns${query ? `?${query}` : ""}`;
+  let orderShipments: Set<string> | undefined;
+  if (params.order_id) {
+    const ids = await orderShipmentIds(params.order_id);
+    if (typeof ids === "string") {
+      return toolError(`Error finding shipments for order ${params.order_id}: ${ids}`);
+    }
+    orderShipments = ids;
+  }
 
-  const response = await client.get<Return[]>(endpoint);
+  // Returns can't be filtered by order on the API, so walk them all
+  const response = await fetchList<Return>(
+    "/returns",
+    queryParams,
+    params.order_id ? { ...params, all: true } : params
+  );
 
   if (response.error) {
-    return `Error listing returns: ${response.error}`;
+    return toolError(`Error listing returns: ${response.error}`);
   }
 
-  const returns = response.data || [];
+  const returns = params.order_id
+    ? response.items.filter(
+        (r) => r.shipment_id != null && orderShipments!.has(String(r.shipment_id))
+      )
+    : response.items;
+  const structured = {
+    returns,
+    count: returns.length,
+    ...(response.pages !== undefined && { pages: response.pages }),
+    ...(response.warning && { warning: response.warning }),
+  };
 
   if (returns.length === 0) {
-    return "No returns found matching your criteria.";
+    return {
+      text: params.order_id
+        ? `No returns found for order ${params.order_id}.`
+        : "No returns found matching your criteria.",
+      structured,
+    };
   }
 
-  const formatted = returns.map((r) => {
-    const lines = [`ID: ${r.id}`, `Status: ${r.status}`];
+  const formatted = returns.map(formatReturn);
+  const forOrder = params.order_id ? ` for order ${params.order_id}` : "";
+  const warning = response.warning ? `\n\n**Warning:** ${response.warning}` : "";
 
-    if (r.reason) lines.push(`Reason: ${r.reason}`);
-    if (r.shipment_id) lines.push(`Shipment ID: ${r.shipment_id}`);
-    lines.push(`Created: ${r.created_at}`);
+  return {
+    text: `Found ${returns.length} return(s)${forOrder}${response.summary}:\n\n${formatted.join("\n\n---\n\n")}${warning}`,
+    structured,
+  };
+}
 
-    return lines.join("\n");
-  });
+export async function getReturn(
+  params: z.infer<typeof GetReturnSchema>
+): Promise<ToolResult> {
+  const r = await findReturn(params.id);
+
+  if (typeof r === "string") {
+    return toolError(`Return ${params.id} not found: ${r}`);
+  }
+  if (!r) {
+    return toolError(`Return ${params.id} not found.`);
+  }
+
+  const lines = [`## Return ${r.id}`, "", `**Status:** ${r.status}`];
+
+  if (r.reason) lines.push(`**Reason:** ${r.reason}`);
+  lines.push(`**Created:** ${r.created_at}`);
+
+  // Pull in the original shipment so the order behind the return is visible
+  let shipment: Shipment | undefined;
+  if (r.shipment_id && params.include_shipment !== false) {
+    const original = await client.get<{ shipment: Shipment }>(`/shipments/${r.shipment_id}`);
+    shipment = original.data?.shipment;
+
+    lines.push("", "### Original Shipment");
+    if (shipment) {
+      lines.push(`**ID:** ${shipment.id} (${shipment.status})`);
+      if (shipment.order_id) {
+        lines.push(`**Order ID:** ${shipment.order_id}${shipment.order_store ? ` (${shipment.order_store})` : ""}`);
+      }
+      lines.push(
+        `**Recipient:** ${shipment.to_name}, ${shipment.to_city}, ${shipment.to_province_code}, ${shipment.to_country_code}`
+      );
+      if (shipment.carrier) {
+        lines.push(`**Service:** ${shipment.carrier}${shipment.postage_type ? ` - ${shipment.postage_type}` : ""}`);
+      }
+      if (shipment.purchase_amount) lines.push(`**Postage Paid:** $${shipment.purchase_amount}`);
+      if (shipment.ship_date) lines.push(`**Shipped:** ${shipment.ship_date}`);
+    } else {
+      lines.push(`Shipment ${r.shipment_id} could not be loaded: ${original.error || "not found"}`);
+    }
+  }
 
-  return `Found ${returns.length} return(s):\n\n${formatted.join("\n\n---\n\n")}`;
+  return {
+    text: lines.join("\n"),
+    structured: { return: r, ...(shipment && { shipment }) },
+  };
 }
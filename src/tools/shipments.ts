@@ -1,4 +1,7 @@
 import { client } from "../client.js";
+import { addressFrom, checkAddress } from "../addresses.js";
+import { fetchList } from "../pagination.js";
+import { toolError, type ToolResult } from "../results.js";
 import type { z } from "zod";
 import type {
   ListShipmentsSchema,
@@ -12,7 +15,7 @@ import type {
 } from "../schemas.js";
 
 // Line item with HS codes, SKUs, manufacturer info
-interface LineItem {
+export interface LineItem {
   quantity: number;
   description: string;
   value_amount: string;
@@ -35,7 +38,7 @@ interface LineItem {
 }
 
 // Shipping rate option
-interface Rate {
+export interface Rate {
   postage_type: string;
   postage_carrier_type: string;
   postage_description: string;
@@ -58,7 +61,7 @@ interface Rate {
 }
 
 // Full shipment with all fields
-interface Shipment {
+export interface Shipment {
   id: string;
   status: string;
   batch_id?: number;
@@ -142,30 +145,31 @@ interface Shipment {
 
 export async function listShipments(
   params: z.infer<typeof ListShipmentsSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams = new URLSearchParams();
 
-  if (params.limit) queryParams.set("limit", params.limit.toString());
-  if (params.page) queryParams.set("page", params.page.toString());
   if (params.batch_id) queryParams.set("batch_id", params.batch_id);
   if (params.status) queryParams.set("status", params.status);
   if (params.from_date) queryParams.set("from_date", params.from_date);
   if (params.to_date) queryParams.set("to_date", params.to_date);
   if (params.search) queryParams.set("search", params.search);
 
-  const query = queryParams.toString();
-  const endpoint = `/shipments${query ? `?${query}` : ""}`;
-
-  const response = await client.get<Shipment[]>(endpoint);
+  const response = await fetchList<Shipment>("/shipments", queryParams, params);
 
   if (response.error) {
-    return `Error listing shipments: ${response.error}`;
+    return toolError(`Error listing shipments: ${response.error}`);
   }
 
-  const shipments = response.data || [];
+  const shipments = response.items;
+  const structured = {
+    shipments,
+    count: shipments.length,
+    ...(response.pages !== undefined && { pages: response.pages }),
+    ...(response.warning && { warning: response.warning }),
+  };
 
   if (shipments.length === 0) {
-    return "No shipments found matching your criteria.";
+    return { text: "No shipments found matching your criteria.", structured };
   }
 
   const formatted = shipments.map((s) => {
@@ -195,23 +199,28 @@ export async function listShipments(
     return lines.join("\n");
   });
 
-  return `Found ${shipments.length} shipment(s):\n\n${formatted.join("\n\n---\n\n")}`;
+  const warning = response.warning ? `\n\n**Warning:** ${response.warning}` : "";
+
+  return {
+    text: `Found ${shipments.length} shipment(s)${response.summary}:\n\n${formatted.join("\n\n---\n\n")}${warning}`,
+    structured,
+  };
 }
 
 export async function getShipment(
   params: z.infer<typeof GetShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ shipment: Shipment }>(
     `/shipments/${params.id}`
   );
 
   if (response.error) {
-    return `Error getting shipment: ${response.error}`;
+    return toolError(`Error getting shipment: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return `Shipment ${params.id} not found.`;
+    return toolError(`Shipment ${params.id} not found.`);
   }
 
   const lines = [
@@ -327,28 +336,31 @@ export async function getShipment(
 
   lines.push("", `**Created:** ${s.created_at}`);
 
-  return lines.join("\n");
+  return { text: lines.join("\n"), structured: { shipment: s } };
 }
 
 // Get just the rates for a shipment
 export async function getShipmentRates(
   params: z.infer<typeof GetShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ shipment: Shipment }>(
     `/shipments/${params.id}`
   );
 
   if (response.error) {
-    return `Error getting shipment rates: ${response.error}`;
+    return toolError(`Error getting shipment rates: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return `Shipment ${params.id} not found.`;
+    return toolError(`Shipment ${params.id} not found.`);
   }
 
   if (!s.rates || s.rates.length === 0) {
-    return `No rates available for shipment ${params.id}. The shipment may already have postage purchased.`;
+    return {
+      text: `No rates available for shipment ${params.id}. The shipment may already have postage purchased.`,
+      structured: { shipment_id: s.id, rates: [] },
+    };
   }
 
   const lines = [
@@ -378,28 +390,31 @@ export async function getShipmentRates(
     lines.push("");
   }
 
-  return lines.join("\n");
+  return { text: lines.join("\n"), structured: { shipment_id: s.id, rates: s.rates } };
 }
 
 // Get label URLs for a shipment
 export async function getShipmentLabels(
   params: z.infer<typeof GetShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ shipment: Shipment }>(
     `/shipments/${params.id}`
   );
 
   if (response.error) {
-    return `Error getting shipment labels: ${response.error}`;
+    return toolError(`Error getting shipment labels: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return `Shipment ${params.id} not found.`;
+    return toolError(`Shipment ${params.id} not found.`);
   }
 
   if (!s.postage_label_png_url && !s.postage_label_pdf_url) {
-    return `No labels available for shipment ${params.id}. Postage may not have been purchased yet.`;
+    return {
+      text: `No labels available for shipment ${params.id}. Postage may not have been purchased yet.`,
+      structured: { shipment_id: s.id },
+    };
   }
 
   const lines = [
@@ -417,28 +432,39 @@ export async function getShipmentLabels(
   if (s.postage_label_pdf_url) lines.push(`- **PDF:** ${s.postage_label_pdf_url}`);
   if (s.postage_label_zpl_url) lines.push(`- **ZPL:** ${s.postage_label_zpl_url}`);
 
-  return lines.join("\n");
+  return {
+    text: lines.join("\n"),
+    structured: {
+      shipment_id: s.id,
+      png_url: s.postage_label_png_url,
+      pdf_url: s.postage_label_pdf_url,
+      zpl_url: s.postage_label_zpl_url,
+    },
+  };
 }
 
 // Get line items with HS codes for a shipment
 export async function getShipmentLineItems(
   params: z.infer<typeof GetShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ shipment: Shipment }>(
     `/shipments/${params.id}`
   );
 
   if (response.error) {
-    return `Error getting line items: ${response.error}`;
+    return toolError(`Error getting line items: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return `Shipment ${params.id} not found.`;
+    return toolError(`Shipment ${params.id} not found.`);
   }
 
   if (!s.line_items || s.line_items.length === 0) {
-    return `No line items found for shipment ${params.id}.`;
+    return {
+      text: `No line items found for shipment ${params.id}.`,
+      structured: { shipment_id: s.id, line_items: [] },
+    };
   }
 
   const lines = [
@@ -473,24 +499,49 @@ export async function getShipmentLineItems(
     lines.push("");
   }
 
-  return lines.join("\n");
+  return {
+    text: lines.join("\n"),
+    structured: { shipment_id: s.id, line_items: s.line_items },
+  };
+}
+
+// Shipment IDs that belong to an order. Search is fuzzy, so keep exact
+// order_id matches only.
+export async function orderShipmentIds(orderId: string): Promise<Set<string> | string> {
+  const response = await fetchList<Shipment>(
+    "/shipments",
+    new URLSearchParams({ search: orderId }),
+    { all: true }
+  );
+  if (response.error) return response.error;
+  return new Set(
+    response.items.filter((s) => String(s.order_id) === orderId).map((s) => String(s.id))
+  );
 }
 
 export async function createShipment(
   params: z.infer<typeof CreateShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
+  // The schema has already rejected invalid addresses; send the normalized
+  // form (province codes, postal code spacing) and report what changed
+  const recipient = checkAddress(addressFrom(params));
+  const returnAddress = params.return_country_code
+    ? checkAddress(addressFrom(params, "return_"))
+    : undefined;
+  const address = recipient.address;
+
   const body: Record<string, unknown> = {
-    name: params.name,
-    address_1: params.address_1,
-    city: params.city,
-    province_code: params.province_code,
-    postal_code: params.postal_code,
-    country_code: params.country_code,
+    name: address.name,
+    address_1: address.address_1,
+    city: address.city,
+    province_code: address.province_code,
+    postal_code: address.postal_code,
+    country_code: address.country_code,
   };
 
-  if (params.address_2) body.address_2 = params.address_2;
-  if (params.phone) body.phone = params.phone;
-  if (params.email) body.email = params.email;
+  if (address.address_2) body.address_2 = address.address_2;
+  if (address.phone) body.phone = address.phone;
+  if (address.email) body.email = address.email;
   if (params.package_type) body.package_type = params.package_type;
   if (params.size_unit) body.size_unit = params.size_unit;
   if (params.size_x) body.size_x = params.size_x;
@@ -505,46 +556,143 @@ export async function createShipment(
   if (params.order_store) body.order_store = params.order_store;
   if (params.postage_type) body.postage_type = params.postage_type;
 
+  // Return address
+  for (const [field, value] of Object.entries(returnAddress?.address || {})) {
+    if (value) body[`return_${field}`] = value;
+  }
+  if (params.is_return_dispose !== undefined) body.is_return_dispose = params.is_return_dispose;
+
+  // Service options
+  if (params.is_insurance_requested !== undefined)
+    body.is_insurance_requested = params.is_insurance_requested;
+  if (params.is_signature_requested !== undefined)
+    body.is_signature_requested = params.is_signature_requested;
+  if (params.is_media_mail_requested !== undefined)
+    body.is_media_mail_requested = params.is_media_mail_requested;
+  if (params.is_delivery_duties_paid_requested !== undefined)
+    body.is_delivery_duties_paid_requested = params.is_delivery_duties_paid_requested;
+
+  if (params.line_items && params.line_items.length > 0) {
+    body.line_items = params.line_items.map((item) => ({
+      ...item,
+      currency_code: item.currency_code.toLowerCase(),
+    }));
+  }
+
   const response = await client.post<{ shipment: Shipment }>("/shipments", body);
 
   if (response.error) {
-    return `Error creating shipment: ${response.error}`;
+    return toolError(`Error creating shipment: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return "Shipment created but no data returned.";
+    return { text: "Shipment created but no data returned.", structured: {} };
+  }
+
+  const lines = [
+    "Shipment created successfully!",
+    "",
+    `ID: ${s.id}`,
+    `Status: ${s.status}`,
+    `Recipient: ${s.to_name}, ${s.to_city}, ${s.to_country_code}`,
+  ];
+
+  const services = [];
+  if (s.is_insurance_requested) services.push("Insurance");
+  if (s.is_signature_requested) services.push("Signature Required");
+  if (s.is_delivery_duties_paid_requested) services.push("DDP");
+  if (s.is_media_mail_requested) services.push("Media Mail");
+  if (services.length > 0) lines.push(`Services: ${services.join(", ")}`);
+  if (s.return_name) {
+    lines.push(`Return To: ${s.return_name}, ${s.return_city}, ${s.return_country_code}`);
+  } else if (s.is_return_dispose) {
+    lines.push("Return: Dispose if undeliverable");
+  }
+
+  // Echo the customs line items as the API recorded them, falling back to
+  // what was submitted if the response omits them
+  const lineItems: LineItem[] =
+    s.line_items && s.line_items.length > 0
+      ? s.line_items
+      : (params.line_items || []).map((item) => ({
+          ...item,
+          value_amount: item.value_amount.toFixed(2),
+        }));
+  if (lineItems.length > 0) {
+    lines.push("", `Line Items (${lineItems.length}):`);
+    for (const item of lineItems) {
+      const details = [
+        `$${item.value_amount} ${item.currency_code.toUpperCase()}`,
+      ];
+      if (item.hs_tariff_code) details.push(`HS ${item.hs_tariff_code}`);
+      if (item.sku_code) details.push(`SKU ${item.sku_code}`);
+      if (item.origin_country) details.push(`Origin ${item.origin_country}`);
+      lines.push(`- ${item.quantity}x ${item.description} (${details.join(", ")})`);
+    }
+  }
+
+  const corrections = [
+    ...recipient.changes,
+    ...(returnAddress?.changes || []).map((c) => ({ ...c, field: `return_${c.field}` })),
+  ];
+  const warnings = [
+    ...recipient.issues,
+    ...(returnAddress?.issues || []).map((i) => ({ ...i, field: `return_${i.field}` })),
+  ].filter((issue) => issue.severity === "warning");
+  if (corrections.length > 0) {
+    lines.push("", "Address Corrections:");
+    for (const c of corrections) lines.push(`- ${c.field}: "${c.from}" -> "${c.to}"`);
+  }
+  if (warnings.length > 0) {
+    lines.push("", "Address Warnings:");
+    for (const w of warnings) lines.push(`- ${w.field}: ${w.message}`);
   }
 
-  return `Shipment created successfully!\n\nID: ${s.id}\nStatus: ${s.status}\nRecipient: ${s.to_name}, ${s.to_city}, ${s.to_country_code}`;
+  return {
+    text: lines.join("\n"),
+    structured: {
+      shipment: s,
+      ...(corrections.length > 0 && { address_corrections: corrections }),
+      ...(warnings.length > 0 && { address_warnings: warnings }),
+    },
+  };
 }
 
 export async function deleteShipment(
   params: z.infer<typeof DeleteShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.delete(`/shipments/${params.id}`);
 
   if (response.error) {
-    return `Error deleting shipment: ${response.error}. Note: Only unpaid shipments can be deleted.`;
+    return toolError(
+      `Error deleting shipment: ${response.error}. Note: Only unpaid shipments can be deleted.`
+    );
   }
 
-  return `Shipment ${params.id} deleted successfully.`;
+  return {
+    text: `Shipment ${params.id} deleted successfully.`,
+    structured: { id: params.id, action: "deleted" },
+  };
 }
 
 export async function buyPostage(
   params: z.infer<typeof BuyPostageSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.patch<{ shipment: Shipment }>(
     `/shipments/${params.id}/buy`
   );
 
   if (response.error) {
-    return `Error purchasing postage: ${response.error}`;
+    return toolError(`Error purchasing postage: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return "Postage purchase initiated. Poll the shipment status to check completion.";
+    return {
+      text: "Postage purchase initiated. Poll the shipment status to check completion.",
+      structured: { id: params.id, action: "postage_purchase_initiated" },
+    };
   }
 
   const lines = [
@@ -557,26 +705,36 @@ export async function buyPostage(
   if (s.carrier_tracking_code)
     lines.push(`Tracking Number: ${s.carrier_tracking_code}`);
 
-  return lines.join("\n");
+  return {
+    text: lines.join("\n"),
+    structured: { id: s.id, action: "postage_purchased", shipment: s },
+  };
 }
 
 export async function refundShipment(
   params: z.infer<typeof RefundShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.patch<{ shipment: Shipment }>(
     `/shipments/${params.id}/refund`
   );
 
   if (response.error) {
-    return `Error requesting refund: ${response.error}`;
+    return toolError(`Error requesting refund: ${response.error}`);
   }
 
-  return `Refund requested for shipment ${params.id}. Check shipment status for updates.`;
+  return {
+    text: `Refund requested for shipment ${params.id}. Check shipment status for updates.`,
+    structured: {
+      id: params.id,
+      action: "refund_requested",
+      ...(response.data?.shipment && { shipment: response.data.shipment }),
+    },
+  };
 }
 
 export async function refreshRates(
   params: z.infer<typeof RefreshRatesSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const body: Record<string, unknown> = {};
 
   if (params.size_x) body.size_x = params.size_x;
@@ -590,12 +748,15 @@ export async function refreshRates(
   );
 
   if (response.error) {
-    return `Error refreshing rates: ${response.error}`;
+    return toolError(`Error refreshing rates: ${response.error}`);
   }
 
   const s = response.data?.shipment;
   if (!s) {
-    return `Rates refreshed for shipment ${params.id}.`;
+    return {
+      text: `Rates refreshed for shipment ${params.id}.`,
+      structured: { id: params.id, action: "rates_refreshed" },
+    };
   }
 
   let result = `Rates refreshed for shipment ${s.id}.\n\nCurrent postage type: ${s.postage_type || "Not set"}`;
@@ -607,12 +768,15 @@ export async function refreshRates(
     }
   }
 
-  return result;
+  return {
+    text: result,
+    structured: { id: s.id, action: "rates_refreshed", shipment: s },
+  };
 }
 
 export async function countShipments(
   params: z.infer<typeof CountShipmentsSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams = new URLSearchParams();
   if (params.status) queryParams.set("status", params.status);
 
@@ -622,11 +786,14 @@ export async function countShipments(
   const response = await client.get<{ count: number }>(endpoint);
 
   if (response.error) {
-    return `Error counting shipments: ${response.error}`;
+    return toolError(`Error counting shipments: ${response.error}`);
   }
 
   const count = response.data?.count ?? 0;
   const statusText = params.status ? ` with status "${params.status}"` : "";
 
-  return `Total shipments${statusText}: ${count}`;
+  return {
+    text: `Total shipments${statusText}: ${count}`,
+    structured: { count, ...(params.status && { status: params.status }) },
+  };
 }
@@ -0,0 +1,386 @@
+import { readFile } from "node:fs/promises";
+import type { z } from "zod";
+import { CreateShipmentSchema, type ImportShopifyOrdersSchema } from "../schemas.js";
+import { parseCsvRecords } from "../csv.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { createShipment, orderShipmentIds } from "./shipments.js";
+import {
+  addToNewBatch,
+  formatIssues,
+  recordCreation,
+  rowResult,
+  summarizeCreation,
+  type ImportStatus,
+} from "./imports.js";
+import { resolveToolPath } from "../files.js";
+import { toolError, type ToolResult } from "../results.js";
+
+type CreateShipmentParams = z.infer<typeof CreateShipmentSchema>;
+
+interface ShopifyMetafield {
+  namespace?: string;
+  key: string;
+  value: unknown;
+}
+
+interface ShopifyAddress {
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  province?: string;
+  province_code?: string;
+  zip?: string;
+  country?: string;
+  country_code?: string;
+  phone?: string;
+}
+
+interface ShopifyLineItem {
+  title?: string;
+  name?: string;
+  variant_title?: string;
+  sku?: string;
+  quantity: number;
+  price?: string | number;
+  grams?: number;
+  requires_shipping?: boolean;
+  // Present when the export includes inventory item customs data
+  harmonized_system_code?: string;
+  country_code_of_origin?: string;
+  metafields?: ShopifyMetafield[];
+}
+
+// The subset of a Shopify Admin API order this import reads
+export interface ShopifyOrder {
+  id?: number | string;
+  name?: string;
+  order_number?: number | string;
+  email?: string;
+  contact_email?: string;
+  phone?: string;
+  currency?: string;
+  total_weight?: number;
+  cancelled_at?: string | null;
+  fulfillment_status?: string | null;
+  shipping_address?: ShopifyAddress | null;
+  line_items?: ShopifyLineItem[];
+}
+
+interface OrderRow {
+  order_id: string;
+  status: ImportStatus;
+  name?: string;
+  shipment_id?: string;
+  // Shipments that already carry this order_id
+  existing_shipment_ids?: string[];
+  error?: string;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const ORDER_STORE = "shopify";
+
+// Metafield keys read for customs data, matched without namespace or case
+const HS_CODE_KEYS = ["hs_tariff_code", "hs_code", "harmonized_system_code", "hs"];
+const ORIGIN_KEYS = ["origin_country", "country_of_origin", "country_code_of_origin", "origin"];
+
+function orderId(order: ShopifyOrder): string {
+  return String(order.name || (order.order_number ? `#${order.order_number}` : order.id ?? ""));
+}
+
+function recipientName(address: ShopifyAddress): string {
+  return address.name || [address.first_name, address.last_name].filter(Boolean).join(" ");
+}
+
+function metafield(item: ShopifyLineItem, keys: string[]): string | undefined {
+  const field = (item.metafields || []).find((m) => keys.includes(m.key.toLowerCase()));
+  return field?.value !== undefined && field.value !== "" ? String(field.value) : undefined;
+}
+
+// Accept a single order, an array, or the API's { order } / { orders } envelopes
+function ordersFromJson(data: unknown): ShopifyOrder[] | undefined {
+  if (Array.isArray(data)) return data as ShopifyOrder[];
+  if (data && typeof data === "object") {
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(record.orders)) return record.orders as ShopifyOrder[];
+    if (record.order && typeof record.order === "object") return [record.order as ShopifyOrder];
+    if ("line_items" in record || "shipping_address" in record) return [record as ShopifyOrder];
+  }
+  return undefined;
+}
+
+// Shopify's admin "Export orders" CSV has one row per line item, with the
+// order and address columns filled on the first row only
+function ordersFromCsv(contents: string): ShopifyOrder[] {
+  const { records } = parseCsvRecords(contents);
+  const orders = new Map<string, ShopifyOrder>();
+
+  for (const r of records) {
+    const name = r["Name"];
+    if (!name) continue;
+    let order = orders.get(name);
+    if (!order) {
+      // Zip codes are exported with a leading ' to keep their zeros
+      const zip = (r["Shipping Zip"] || "").replace(/^'/, "");
+      order = {
+        name,
+        email: r["Email"] || undefined,
+        phone: r["Phone"] || undefined,
+        currency: r["Currency"] || undefined,
+        cancelled_at: r["Cancelled at"] || null,
+        fulfillment_status: r["Fulfillment Status"] || null,
+        shipping_address: r["Shipping Address1"]
+          ? {
+              name: r["Shipping Name"],
+              company: r["Shipping Company"] || undefined,
+              address1: r["Shipping Address1"],
+              address2: r["Shipping Address2"] || undefined,
+              city: r["Shipping City"],
+              province_code: r["Shipping Province"],
+              zip,
+              country_code: r["Shipping Country"],
+              phone: r["Shipping Phone"] || undefined,
+            }
+          : null,
+        line_items: [],
+      };
+      orders.set(name, order);
+    }
+    if (r["Lineitem name"]) {
+      order.line_items!.push({
+        title: r["Lineitem name"],
+        sku: r["Lineitem sku"] || undefined,
+        quantity: Number(r["Lineitem quantity"]) || 1,
+        price: r["Lineitem price"],
+        requires_shipping: r["Lineitem requires shipping"] !== "false",
+      });
+    }
+  }
+
+  return [...orders.values()];
+}
+
+function skipReason(order: ShopifyOrder): string | undefined {
+  if (order.cancelled_at) return "order is cancelled";
+  if (order.fulfillment_status === "fulfilled") return "already fulfilled in Shopify";
+  if (!order.shipping_address) return "no shipping address";
+  if (!(order.line_items || []).some((item) => item.requires_shipping !== false)) {
+    return "no items that require shipping";
+  }
+  return undefined;
+}
+
+// Build chitchats_create_shipment params from an order. Defaults fill in
+// what Shopify doesn't know (package size, postage type, return address).
+function toShipment(order: ShopifyOrder, defaults: Record<string, unknown>): Record<string, unknown> {
+  const address = order.shipping_address!;
+  // Chit Chats takes CAD or USD values; other store currencies fail validation
+  const currency = String(order.currency || defaults.value_currency || "").toUpperCase() || undefined;
+  const items = (order.line_items || []).filter((item) => item.requires_shipping !== false);
+
+  const lineItems = items.map((item) => {
+    const hsCode = item.harmonized_system_code || metafield(item, HS_CODE_KEYS);
+    const origin = item.country_code_of_origin || metafield(item, ORIGIN_KEYS);
+    return {
+      quantity: item.quantity,
+      description: [item.title || item.name, item.variant_title].filter(Boolean).join(" - "),
+      value_amount: Number(item.price ?? 0),
+      currency_code: currency,
+      ...(item.sku && { sku_code: item.sku }),
+      ...(hsCode && { hs_tariff_code: hsCode }),
+      ...(origin && { origin_country: origin.toUpperCase() }),
+      ...(item.grams && { weight: item.grams, weight_unit: "g" }),
+    };
+  });
+
+  const itemGrams = items.reduce((sum, item) => sum + (item.grams || 0) * item.quantity, 0);
+  const grams = order.total_weight || itemGrams;
+  const value = lineItems.reduce((sum, item) => sum + item.value_amount * item.quantity, 0);
+  return {
+    ...defaults,
+    name: recipientName(address),
+    address_1: address.address1,
+    ...(address.address2 && { address_2: address.address2 }),
+    city: address.city,
+    province_code: address.province_code || address.province,
+    postal_code: address.zip,
+    country_code: address.country_code || address.country,
+    ...((address.phone || order.phone) && { phone: address.phone || order.phone }),
+    ...((order.email || order.contact_email) && { email: order.email || order.contact_email }),
+    ...(grams > 0 && { weight: grams, weight_unit: "g" }),
+    description: lineItems.map((item) => item.description).join(", ").slice(0, 200),
+    ...(value > 0 && { value: Math.round(value * 100) / 100, value_currency: currency }),
+    order_id: orderId(order),
+    order_store: ORDER_STORE,
+    line_items: lineItems,
+  };
+}
+
+function formatTable(rows: OrderRow[]): string {
+  const lines = ["| Order | Recipient | Result |", "|-------|-----------|--------|"];
+  for (const r of rows) {
+    lines.push(`| ${r.order_id} | ${r.name || ""} | ${rowResult(r).replace(/\|/g, "\\|")} |`);
+  }
+  return lines.join("\n");
+}
+
+async function loadOrders(
+  params: z.infer<typeof ImportShopifyOrdersSchema>
+): Promise<{ source: string; orders: ShopifyOrder[] } | string> {
+  if (params.orders !== undefined) {
+    const orders = ordersFromJson(params.orders);
+    return orders ? { source: "inline", orders } : "orders is not a Shopify order or list of orders";
+  }
+
+  const target = await resolveToolPath(params.path!);
+  if (target.error !== undefined) {
+    return `Error reading ${params.path}: ${target.error}`;
+  }
+  const path = target.path;
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch (err) {
+    return `Error reading ${path}: ${err instanceof Error ? err.message : "Unknown error"}`;
+  }
+
+  if (path.toLowerCase().endsWith(".csv")) {
+    return { source: path, orders: ordersFromCsv(contents) };
+  }
+  try {
+    // Also accept JSON Lines, one order per line
+    const trimmed = contents.trim();
+    const data =
+      trimmed.startsWith("{") && trimmed.includes("\n{")
+        ? trimmed.split(/\r?\n/).filter(Boolean).map((line) => JSON.parse(line))
+        : JSON.parse(trimmed);
+    const orders = ordersFromJson(data);
+    return orders ? { source: path, orders } : `${path} does not contain Shopify orders`;
+  } catch {
+    // Parser messages quote the input, so don't echo them
+    return `${path} is not valid JSON or JSON Lines`;
+  }
+}
+
+export async function importShopifyOrders(
+  params: z.infer<typeof ImportShopifyOrdersSchema>
+): Promise<ToolResult> {
+  const loaded = await loadOrders(params);
+  if (typeof loaded === "string") {
+    return toolError(loaded);
+  }
+  const { source, orders } = loaded;
+  if (orders.length === 0) {
+    return toolError(`No orders found in ${source === "inline" ? "the orders given" : source}.`);
+  }
+
+  const concurrency = params.concurrency || DEFAULT_CONCURRENCY;
+  const seen = new Set<string>();
+  const rows: OrderRow[] = [];
+  const valid: { row: OrderRow; shipment: CreateShipmentParams }[] = [];
+
+  const checks = await mapWithConcurrency(orders, concurrency, async (order) => {
+    const id = orderId(order);
+    if (!id || skipReason(order)) return { order, id };
+    return { order, id, existing: await orderShipmentIds(id) };
+  });
+
+  for (const { order, id, existing } of checks) {
+    const address = order.shipping_address;
+    const row: OrderRow = {
+      order_id: id || "(none)",
+      status: "valid",
+      ...(address && { name: recipientName(address) }),
+    };
+    rows.push(row);
+
+    const reason = !id ? "order has no name or number" : skipReason(order);
+    if (reason) {
+      row.status = "skipped";
+      row.error = reason;
+    } else if (typeof existing === "string") {
+      row.status = "failed";
+      row.error = `could not check for existing shipments: ${existing}`;
+    } else if (existing && existing.size > 0) {
+      row.status = "skipped";
+      row.existing_shipment_ids = [...existing];
+      row.error = `already shipped as ${[...existing].join(", ")}`;
+    } else if (seen.has(id)) {
+      row.status = "skipped";
+      row.error = "duplicate order in this import";
+    } else {
+      const parsed = CreateShipmentSchema.safeParse(toShipment(order, params.defaults || {}));
+      if (parsed.success) {
+        valid.push({ row, shipment: parsed.data });
+      } else {
+        row.status = "invalid";
+        row.error = formatIssues(parsed.error);
+      }
+    }
+    if (id) seen.add(id);
+  }
+
+  const count = (status: OrderRow["status"]) => rows.filter((r) => r.status === status).length;
+  const invalidCount = count("invalid");
+  const header = [
+    `## Shopify Import: ${source === "inline" ? "inline orders" : source}`,
+    "",
+    `**Orders:** ${rows.length} (${valid.length} ready, ${count("skipped")} skipped, ${invalidCount} invalid)`,
+  ];
+  const structuredBase = {
+    source,
+    total_orders: rows.length,
+    skipped: count("skipped"),
+    invalid: invalidCount,
+  };
+
+  const blocked = invalidCount > 0 && !params.skip_invalid;
+  if (params.dry_run || blocked || valid.length === 0) {
+    if (blocked) {
+      for (const { row } of valid) {
+        row.status = "skipped";
+        row.error = "not created because other orders are invalid";
+      }
+      header.push(
+        "",
+        "Nothing was created because some orders are invalid. Fix them (defaults can fill missing fields), or pass skip_invalid to create the valid orders."
+      );
+    } else if (params.dry_run) {
+      header.push("", "Dry run only - no shipments were created.");
+    } else {
+      header.push("", "No orders need a shipment.");
+    }
+    const text = `${header.join("\n")}\n\n${formatTable(rows)}`;
+    const structured = { ...structuredBase, created: 0, failed: count("failed"), orders: rows };
+    return blocked ? { ...toolError(text), structured } : { text, structured };
+  }
+
+  await mapWithConcurrency(valid, concurrency, async ({ row, shipment }) =>
+    recordCreation(row, await createShipment(shipment))
+  );
+
+  const { createdIds, unconfirmed, failed, lines } = summarizeCreation(rows);
+  header.push(...lines);
+
+  let batchId: string | undefined;
+  if (params.batch_description !== undefined && createdIds.length > 0) {
+    const batch = await addToNewBatch(params.batch_description, createdIds);
+    batchId = batch.batchId;
+    header.push(batch.summary);
+  }
+
+  return {
+    text: `${header.join("\n")}\n\n${formatTable(rows)}`,
+    structured: {
+      ...structuredBase,
+      created: createdIds.length,
+      ...(unconfirmed > 0 && { unconfirmed }),
+      failed,
+      ...(batchId && { batch_id: batchId }),
+      orders: rows,
+    },
+  };
+}
@@ -1,14 +1,22 @@
 import { client } from "../client.js";
 import type { z } from "zod";
-import type { TrackShipmentSchema } from "../schemas.js";
+import type { TrackingWatcherSchema, TrackShipmentSchema } from "../schemas.js";
+import { toolError, type ToolResult } from "../results.js";
+import {
+  checkTrackingNow,
+  startWatcher,
+  stopWatcher,
+  watcherStatus,
+  type TrackingChange,
+} from "../watcher.js";
 
-interface TrackingEvent {
+export interface TrackingEvent {
   date: string;
   description: string;
   location?: string;
 }
 
-interface TrackingInfo {
+export interface TrackingInfo {
   shipment_id: string;
   status: string;
   carrier?: string;
@@ -19,16 +27,16 @@ interface TrackingInfo {
 
 export async function trackShipment(
   params: z.infer<typeof TrackShipmentSchema>
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.getPublicTracking(params.id);
 
   if (response.error) {
-    return `Error getting tracking: ${response.error}`;
+    return toolError(`Error getting tracking: ${response.error}`);
   }
 
   const tracking = response.data as TrackingInfo | undefined;
   if (!tracking) {
-    return `No tracking information found for shipment ${params.id}.`;
+    return toolError(`No tracking information found for shipment ${params.id}.`);
   }
 
   const lines = [
@@ -51,5 +59,60 @@ export async function trackShipment(
     }
   }
 
-  return lines.join("\n");
+  return {
+    text: lines.join("\n"),
+    structured: { shipment_id: params.id, tracking },
+  };
+}
+
+function formatChange(c: TrackingChange): string {
+  const transition =
+    c.previous_status && c.previous_status !== c.status
+      ? `${c.previous_status} -> ${c.status}`
+      : c.status;
+  const events = c.new_events.map((e) => `\n  - ${e.date}: ${e.description}`).join("");
+  return `- **${c.shipment_id}** (${c.account}): ${transition}${events}`;
+}
+
+export async function trackingWatcher(
+  params: z.infer<typeof TrackingWatcherSchema>
+): Promise<ToolResult> {
+  const action = params.action || "status";
+  let changes: TrackingChange[] | undefined;
+
+  if (action === "start") {
+    startWatcher({
+      intervalMinutes: params.interval_minutes,
+      notifyStatuses: params.notify_statuses,
+    });
+  } else if (action === "stop") {
+    stopWatcher();
+  } else if (action === "check") {
+    changes = await checkTrackingNow();
+  }
+
+  const status = watcherStatus();
+  const lines = [
+    `## Tracking Watcher`,
+    "",
+    `**Running:** ${status.running ? `yes, every ${status.interval_minutes} min` : "no"}`,
+    `**Watching:** ${status.watching} shipment(s) in ${status.shipment_statuses.join(", ")}`,
+    `**Notifies on:** ${status.notify_statuses.length ? status.notify_statuses.join(", ") : "any change"}${status.webhook ? " (also posted to the webhook)" : ""}`,
+  ];
+  if (status.last_run_at) lines.push(`**Last Check:** ${status.last_run_at}`);
+  if (status.last_error) lines.push(`**Last Error:** ${status.last_error}`);
+
+  if (changes) {
+    lines.push("", `### Changes (${changes.length})`);
+    lines.push(
+      ...(changes.length
+        ? changes.map(formatChange)
+        : ["No changes since the previous check. The first check only records a baseline."])
+    );
+  }
+
+  return {
+    text: lines.join("\n"),
+    structured: { watcher: status, ...(changes && { changes }) },
+  };
 }
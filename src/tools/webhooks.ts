@@ -0,0 +1,89 @@
+import type { z } from "zod";
+import type { ReplayWebhooksSchema } from "../schemas.js";
+import {
+  DEAD_LETTER_FILE,
+  deliver,
+  readDeadLetters,
+  updateDeadLetters,
+  type DeadLetter,
+} from "../webhooks.js";
+import type { ToolResult } from "../results.js";
+
+function deliveryKey(entry: DeadLetter): string {
+  return `${entry.event.id} ${entry.url}`;
+}
+
+export async function replayWebhooks(
+  params: z.infer<typeof ReplayWebhooksSchema>
+): Promise<ToolResult> {
+  const entries = await readDeadLetters();
+  const selected = entries.filter(
+    (e) => !params.event_ids || params.event_ids.includes(e.event.id)
+  );
+
+  const summarize = (e: DeadLetter) => ({
+    id: e.event.id,
+    type: e.event.type,
+    url: e.url,
+    created_at: e.event.created_at,
+    last_error: e.error,
+  });
+
+  if (selected.length === 0) {
+    return {
+      text: entries.length === 0
+        ? "No failed webhook deliveries."
+        : "None of the requested events are in the dead-letter file.",
+      structured: { replayed: [], remaining: entries.length, dead_letter_file: DEAD_LETTER_FILE },
+    };
+  }
+
+  if (params.dry_run) {
+    const lines = selected.map(
+      (e) => `- ${e.event.id} **${e.event.type}** -> ${e.url} (failed ${e.failed_at}: ${e.error})`
+    );
+    return {
+      text: `Failed deliveries to replay: ${selected.length}\n\n${lines.join("\n")}`,
+      structured: {
+        pending: selected.map(summarize),
+        replayed: [],
+        remaining: entries.length,
+        dead_letter_file: DEAD_LETTER_FILE,
+      },
+    };
+  }
+
+  // Replay one at a time so a receiver that's still down isn't flooded
+  const replayed = [];
+  const stillFailing = new Map<string, DeadLetter>();
+  for (const entry of selected) {
+    const result = await deliver(entry.url, entry.event);
+    replayed.push({ ...summarize(entry), delivered: result.delivered, error: result.error });
+    if (!result.delivered) {
+      stillFailing.set(deliveryKey(entry), {
+        ...entry,
+        attempts: entry.attempts + result.attempts,
+        error: result.error || entry.error,
+        failed_at: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Apply the results to the file as it is now, which may hold deliveries
+  // that failed while replaying
+  const selectedKeys = new Set(selected.map(deliveryKey));
+  const remaining = await updateDeadLetters((current) => [
+    ...current.filter((e) => !selectedKeys.has(deliveryKey(e))),
+    ...stillFailing.values(),
+  ]);
+
+  const delivered = replayed.filter((r) => r.delivered).length;
+  const lines = replayed.map(
+    (r) => `- ${r.id} **${r.type}** -> ${r.url}: ${r.delivered ? "delivered" : `failed (${r.error})`}`
+  );
+
+  return {
+    text: `Replayed: ${replayed.length}, delivered: ${delivered}, still failing: ${replayed.length - delivered}. Left in the dead-letter file: ${remaining.length}.\n\n${lines.join("\n")}`,
+    structured: { replayed, remaining: remaining.length, dead_letter_file: DEAD_LETTER_FILE },
+  };
+}
@@ -0,0 +1,287 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { client, defaultAccountName, getAccounts, withAccount } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import type { Shipment } from "./tools/shipments.js";
+import type { TrackingEvent, TrackingInfo } from "./tools/tracking.js";
+
+export interface TrackingChange {
+  account: string;
+  shipment_id: string;
+  previous_status?: string;
+  status: string;
+  new_events: TrackingEvent[];
+  detected_at: string;
+}
+
+export interface WatcherStatus {
+  running: boolean;
+  interval_minutes: number;
+  shipment_statuses: string[];
+  notify_statuses: string[];
+  webhook: boolean;
+  watching: number;
+  last_run_at?: string;
+  last_error?: string;
+  changes_detected: number;
+}
+
+interface SeenState {
+  status: string;
+  eventKeys: Set<string>;
+  // When the shipment was first polled (ms)
+  since: number;
+}
+
+function listEnv(name: string, fallback: string[]): string[] {
+  const value = process.env[name];
+  if (value === undefined) return fallback;
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const TRACKING_CONCURRENCY = 5;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Tracking stops being polled once it reaches one of these
+const TERMINAL_STATUSES = new Set(["delivered", "returned", "cancelled"]);
+// ...or once it has been polled this long (lost parcels, labels never scanned)
+const MAX_WATCH_DAYS = Number(process.env.CHITCHATS_WATCH_MAX_DAYS) || 30;
+
+// Shipment statuses that count as in flight and get their tracking polled
+const SHIPMENT_STATUSES = listEnv("CHITCHATS_WATCH_SHIPMENT_STATUSES", ["inducted", "in_transit"]);
+const WEBHOOK_URL = process.env.CHITCHATS_WATCH_WEBHOOK_URL;
+
+// account:shipment_id -> last tracking state seen
+const seen = new Map<string, SeenState>();
+// account:shipment_id of shipments dropped for age, so they aren't picked up
+// again while they still list as in flight
+const expired = new Set<string>();
+// Connected clients and the accounts each has used; none yet means the
+// default account
+const servers = new Map<Server, Set<string>>();
+
+let timer: NodeJS.Timeout | undefined;
+let running: Promise<TrackingChange[]> | undefined;
+let intervalMinutes = Number(process.env.CHITCHATS_WATCH_INTERVAL_MINUTES) || 0;
+// Empty means every change is reported
+let notifyStatuses = listEnv("CHITCHATS_WATCH_NOTIFY_STATUSES", []);
+let lastRunAt: string | undefined;
+let lastError: string | undefined;
+let changesDetected = 0;
+
+function eventKey(event: TrackingEvent): string {
+  return `${event.date}|${event.description}|${event.location || ""}`;
+}
+
+// Send tracking changes to connected clients as MCP log messages
+export function attachTrackingWatcher(server: Server): void {
+  servers.set(server, new Set());
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    servers.delete(server);
+    previousOnClose?.();
+  };
+}
+
+// Scope a client's notifications to the accounts it calls tools with
+export function watchAccount(server: Server, account: string): void {
+  servers.get(server)?.add(account);
+}
+
+function followsAccount(accounts: Set<string>, account: string): boolean {
+  return accounts.size > 0 ? accounts.has(account) : account === defaultAccountName();
+}
+
+async function notify(change: TrackingChange): Promise<void> {
+  const events = change.new_events.map((e) => e.description).join("; ");
+  const message = `Shipment ${change.shipment_id} (${change.account}): ${
+    change.previous_status && change.previous_status !== change.status
+      ? `${change.previous_status} -> ${change.status}`
+      : change.status
+  }${events ? ` - ${events}` : ""}`;
+
+  await Promise.all(
+    [...servers]
+      .filter(([, accounts]) => followsAccount(accounts, change.account))
+      .map(([server]) =>
+        server
+          .sendLoggingMessage({
+            level: change.status === "exception" ? "warning" : "info",
+            logger: "chitchats-tracking",
+            data: { message, ...change },
+          })
+          .catch(() => undefined)
+      )
+  );
+
+  if (WEBHOOK_URL) {
+    try {
+      const response = await fetch(WEBHOOK_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: "tracking.changed", ...change }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.error(`Tracking webhook returned HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Tracking webhook failed:", error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+async function inFlightShipmentIds(): Promise<string[]> {
+  const ids: string[] = [];
+  for (const status of SHIPMENT_STATUSES) {
+    const result = await client.getAllPages<Shipment>(
+      "/shipments",
+      new URLSearchParams({ status })
+    );
+    if (result.stoppedBy === "error" && result.data.length === 0) {
+      throw new Error(`Listing ${status} shipments failed: ${result.error}`);
+    }
+    ids.push(...result.data.map((s) => s.id));
+  }
+  return ids;
+}
+
+async function checkAccount(account: string): Promise<TrackingChange[]> {
+  const prefix = `${account}:`;
+  const inFlight = new Set(await inFlightShipmentIds());
+  // Forget expired shipments once they stop listing as in flight
+  for (const key of expired) {
+    if (key.startsWith(prefix) && !inFlight.has(key.slice(prefix.length))) expired.delete(key);
+  }
+
+  const ids = new Set([...inFlight].filter((id) => !expired.has(`${prefix}${id}`)));
+  // Keep following shipments that left the in-flight statuses until their
+  // tracking reaches a terminal status or they age out
+  const cutoff = Date.now() - MAX_WATCH_DAYS * 86400000;
+  for (const [key, state] of seen) {
+    if (!key.startsWith(prefix)) continue;
+    if (state.since < cutoff) {
+      seen.delete(key);
+      expired.add(key);
+      ids.delete(key.slice(prefix.length));
+    } else {
+      ids.add(key.slice(prefix.length));
+    }
+  }
+
+  const changes = await mapWithConcurrency(
+    [...ids],
+    TRACKING_CONCURRENCY,
+    async (id): Promise<TrackingChange | undefined> => {
+      const response = await client.getPublicTracking(id);
+      const tracking = response.data as TrackingInfo | undefined;
+      if (response.error || !tracking?.status) return undefined;
+
+      const key = `${prefix}${id}`;
+      const previous = seen.get(key);
+      const events = tracking.events || [];
+      const eventKeys = new Set(events.map(eventKey));
+
+      if (TERMINAL_STATUSES.has(tracking.status)) {
+        seen.delete(key);
+      } else {
+        seen.set(key, { status: tracking.status, eventKeys, since: previous?.since ?? Date.now() });
+      }
+
+      // The first sighting only records a baseline
+      if (!previous) return undefined;
+
+      const newEvents = events.filter((e) => !previous.eventKeys.has(eventKey(e)));
+      if (previous.status === tracking.status && newEvents.length === 0) return undefined;
+      if (notifyStatuses.length > 0 && !notifyStatuses.includes(tracking.status)) return undefined;
+
+      return {
+        account,
+        shipment_id: id,
+        previous_status: previous.status,
+        status: tracking.status,
+        new_events: newEvents,
+        detected_at: new Date().toISOString(),
+      };
+    }
+  );
+
+  return changes.filter((c): c is TrackingChange => c !== undefined);
+}
+
+async function runCheck(): Promise<TrackingChange[]> {
+  const changes: TrackingChange[] = [];
+  const errors: string[] = [];
+
+  for (const account of getAccounts()) {
+    try {
+      changes.push(...(await withAccount(account.name, () => checkAccount(account.name))));
+    } catch (error) {
+      errors.push(`${account.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  for (const change of changes) {
+    await notify(change);
+  }
+
+  lastRunAt = new Date().toISOString();
+  lastError = errors.length > 0 ? errors.join("; ") : undefined;
+  changesDetected += changes.length;
+  return changes;
+}
+
+/**
+ * Poll tracking for every in-flight shipment once and report what changed
+ * since the previous check. Overlapping calls share the same run.
+ */
+export function checkTrackingNow(): Promise<TrackingChange[]> {
+  if (!running) {
+    running = runCheck().finally(() => {
+      running = undefined;
+    });
+  }
+  return running;
+}
+
+export function startWatcher(options: { intervalMinutes?: number; notifyStatuses?: string[] } = {}): void {
+  intervalMinutes = options.intervalMinutes || intervalMinutes || DEFAULT_INTERVAL_MINUTES;
+  if (options.notifyStatuses) notifyStatuses = options.notifyStatuses;
+
+  stopWatcher();
+  const tick = () => {
+    checkTrackingNow().catch((error) => console.error("Tracking watcher failed:", error));
+  };
+  timer = setInterval(tick, intervalMinutes * 60000);
+  timer.unref();
+  // Record a baseline right away so the first interval can report changes
+  tick();
+}
+
+export function stopWatcher(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
+
+export function watcherStatus(): WatcherStatus {
+  return {
+    running: timer !== undefined,
+    interval_minutes: intervalMinutes || DEFAULT_INTERVAL_MINUTES,
+    shipment_statuses: SHIPMENT_STATUSES,
+    notify_statuses: notifyStatuses,
+    webhook: WEBHOOK_URL !== undefined,
+    watching: seen.size,
+    ...(lastRunAt && { last_run_at: lastRunAt }),
+    ...(lastError && { last_error: lastError }),
+    changes_detected: changesDetected,
+  };
+}
+
+// Start polling at boot when CHITCHATS_WATCH_INTERVAL_MINUTES is set
+export function startWatcherFromEnv(): void {
+  if (intervalMinutes > 0) startWatcher();
+}
@@ -0,0 +1,205 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { retryCount } from "./client.js";
+import type { ToolResult } from "./results.js";
+
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  created_at: string;
+  account: string;
+  tool: string;
+  outcome: "succeeded" | "failed";
+  // Tool arguments, the structured result, or the error text on failure
+  input: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface DeadLetter {
+  event: WebhookEvent;
+  url: string;
+  attempts: number;
+  error: string;
+  failed_at: string;
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  error?: string;
+}
+
+const WEBHOOK_URLS = (process.env.CHITCHATS_WEBHOOK_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+const WEBHOOK_SECRET = process.env.CHITCHATS_WEBHOOK_SECRET || "";
+const MAX_RETRIES = retryCount("CHITCHATS_WEBHOOK_RETRIES", 3);
+const TIMEOUT_MS = Number(process.env.CHITCHATS_WEBHOOK_TIMEOUT_MS) || 10000;
+const RETRY_BASE_MS = 1000;
+export const DEAD_LETTER_FILE = resolve(
+  process.env.CHITCHATS_WEBHOOK_DEAD_LETTER || ".chitchats-webhooks/dead-letter.jsonl"
+);
+
+// Which tool calls emit events, and under what type
+const TOOL_EVENTS: Record<string, string> = {
+  chitchats_create_shipment: "shipment.created",
+  chitchats_import_shipments_csv: "shipments.imported",
+  chitchats_import_shopify_orders: "shipments.imported",
+  chitchats_delete_shipment: "shipment.deleted",
+  chitchats_buy_postage: "postage.purchased",
+  chitchats_buy_best_rate: "postage.purchased",
+  chitchats_refund_shipment: "refund.requested",
+  chitchats_refresh_rates: "rates.refreshed",
+  chitchats_create_batch: "batch.created",
+  chitchats_auto_batch: "batch.auto_created",
+  chitchats_delete_batch: "batch.deleted",
+  chitchats_add_to_batch: "batch.shipments_added",
+  chitchats_remove_from_batch: "batch.shipments_removed",
+};
+
+if (WEBHOOK_URLS.length > 0 && !WEBHOOK_SECRET) {
+  console.error("CHITCHATS_WEBHOOK_URLS is set without CHITCHATS_WEBHOOK_SECRET; events will be unsigned");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Receivers verify with HMAC-SHA256(secret, `${timestamp}.${body}`)
+function sign(timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+async function post(url: string, event: WebhookEvent): Promise<void> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "chitchats-mcp",
+    "X-ChitChats-Event": event.type,
+    "X-ChitChats-Delivery": event.id,
+    "X-ChitChats-Timestamp": timestamp,
+  };
+  if (WEBHOOK_SECRET) headers["X-ChitChats-Signature"] = sign(timestamp, body);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
+
+/**
+ * Deliver one event to one URL, retrying with exponential backoff. Each
+ * attempt is re-signed with a fresh timestamp.
+ */
+export async function deliver(url: string, event: WebhookEvent): Promise<DeliveryResult> {
+  let error = "";
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    try {
+      await post(url, event);
+      return { delivered: true, attempts: attempt + 1 };
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return { delivered: false, attempts: MAX_RETRIES + 1, error };
+}
+
+// Every change to the dead-letter file runs in turn on this chain, so an
+// append can't land between a replay's read and its rewrite
+let deadLetterQueue: Promise<unknown> = Promise.resolve();
+
+function withDeadLetterLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = deadLetterQueue.then(task);
+  // Keep the chain alive even if this change throws
+  deadLetterQueue = run.catch(() => undefined);
+  return run;
+}
+
+function deadLetter(entry: DeadLetter): Promise<void> {
+  return withDeadLetterLock(async () => {
+    await mkdir(dirname(DEAD_LETTER_FILE), { recursive: true });
+    await appendFile(DEAD_LETTER_FILE, `${JSON.stringify(entry)}\n`);
+  });
+}
+
+async function dispatch(event: WebhookEvent): Promise<void> {
+  await Promise.all(
+    WEBHOOK_URLS.map(async (url) => {
+      const result = await deliver(url, event);
+      if (!result.delivered) {
+        await deadLetter({
+          event,
+          url,
+          attempts: result.attempts,
+          error: result.error || "Unknown error",
+          failed_at: new Date().toISOString(),
+        });
+      }
+    })
+  );
+}
+
+/**
+ * Publish the outcome of a mutating tool call. Delivery happens in the
+ * background so the tool result is never held up by a slow receiver.
+ * Dry runs and read-only tools publish nothing.
+ */
+export function emitToolEvent(
+  tool: string,
+  input: Record<string, unknown>,
+  result: ToolResult,
+  account: string
+): void {
+  const type = TOOL_EVENTS[tool];
+  if (!type || WEBHOOK_URLS.length === 0 || input.dry_run === true) return;
+
+  const event: WebhookEvent = {
+    id: randomUUID(),
+    type,
+    created_at: new Date().toISOString(),
+    account,
+    tool,
+    outcome: result.isError ? "failed" : "succeeded",
+    input,
+    ...(result.structured && { result: result.structured }),
+    ...(result.isError && { error: result.text }),
+  };
+
+  dispatch(event).catch((error) => console.error("Webhook dispatch failed:", error));
+}
+
+export async function readDeadLetters(): Promise<DeadLetter[]> {
+  try {
+    const content = await readFile(DEAD_LETTER_FILE, "utf8");
+    return content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as DeadLetter);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * Rewrite the dead-letter file from its current contents. The read and the
+ * write hold the same lock as new failures, so none are overwritten.
+ */
+export function updateDeadLetters(
+  update: (entries: DeadLetter[]) => DeadLetter[]
+): Promise<DeadLetter[]> {
+  return withDeadLetterLock(async () => {
+    const entries = update(await readDeadLetters());
+    await mkdir(dirname(DEAD_LETTER_FILE), { recursive: true });
+    await writeFile(DEAD_LETTER_FILE, entries.map((e) => `${JSON.stringify(e)}\n`).join(""));
+    return entries;
+  });
+}